@@ -0,0 +1,67 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { Log, Result } from 'sarif';
+import { augmentLog } from '../shared';
+import '../shared/extension';
+import { compareWithBaseline } from './compareLogs';
+
+describe('compareWithBaseline', () => {
+    const createLog = (uri: string, results: Partial<Result>[]) => {
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                tool: { driver: { name: 'Tool', rules: [{ id: 'R1' }, { id: 'R2' }] } },
+                results: results.map(result => ({ ruleId: 'R1', message: { text: 'Message' }, ...result })),
+            }],
+        } as unknown as Log;
+        log._uri = uri;
+        augmentLog(log);
+        return log;
+    };
+    const location = (uri: string, startLine: number, snippet?: string) => [{
+        physicalLocation: { artifactLocation: { uri }, region: { startLine, snippet: snippet ? { text: snippet } : undefined } },
+    }];
+
+    it('classifies results as new, unchanged, updated and absent', () => {
+        const baseline = createLog('file:///baseline.sarif', [
+            { partialFingerprints: { hash: '1' }, locations: location('/a.js', 1) },
+            { locations: location('/a.js', 10, 'eval(x)') },
+            { locations: location('/b.js', 5) },
+            { ruleId: 'R2', locations: location('/c.js', 1) },
+        ]);
+        const log = createLog('file:///log.sarif', [
+            { partialFingerprints: { hash: '1' }, locations: location('/a.js', 1) }, // Unchanged by fingerprint.
+            { locations: location('/a.js', 12, 'eval(x)') }, // Moved, updated by snippet.
+            { locations: location('/b.js', 5), message: { text: 'Reworded' } }, // Updated by location.
+            { locations: location('/d.js', 1) }, // New.
+        ]);
+
+        const {text, counts} = compareWithBaseline(log, baseline);
+        const compared = JSON.parse(text) as Log;
+        assert.deepStrictEqual(compared.runs[0].results!.map(result => result.baselineState), ['unchanged', 'updated', 'updated', 'new']);
+        assert.deepStrictEqual(counts, { new: 1, unchanged: 1, updated: 2, absent: 1 });
+
+        // Absent results are appended in a copy of their run, keeping the rules they refer to.
+        assert.strictEqual(compared.runs.length, 2);
+        assert.deepStrictEqual(compared.runs[1].results!.map(result => [result.ruleId, result.baselineState]), [['R2', 'absent']]);
+        assert.strictEqual(compared.runs[1].tool.driver.rules!.length, 2);
+
+        // Neither log is modified.
+        assert.strictEqual(log.runs.length, 1);
+        assert.strictEqual(log.runs[0].results![1].baselineState, 'new');
+    });
+
+    it('replaces the absent results of a previous comparison', () => {
+        const baseline = createLog('file:///baseline.sarif', [{ locations: location('/a.js', 1) }]);
+        const log = createLog('file:///log.sarif', []);
+
+        const first = JSON.parse(compareWithBaseline(log, baseline).text) as Log;
+        first._uri = log._uri;
+        augmentLog(first);
+        const second = JSON.parse(compareWithBaseline(first, baseline).text) as Log;
+        assert.strictEqual(second.runs.length, 2);
+        assert.strictEqual(second.runs[1].results!.length, 1);
+    });
+});
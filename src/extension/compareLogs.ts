@@ -0,0 +1,107 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { Log, Result, Run } from 'sarif';
+import { getResultFingerprint } from '../shared';
+import '../shared/extension';
+
+export type BaselineCounts = Record<'new' | 'unchanged' | 'updated' | 'absent', number>;
+
+// Marks the runs appended to hold absent results. These are replaced if the log is compared again.
+const absentRunProperty = 'sarif-viewer/absentResults';
+const isAbsentRun = (run: Run) => !!run.properties?.[absentRunProperty];
+
+// Omits the augmented members (which are also circular), unlike `withoutAugmentation` this is deep.
+function serialize(obj: unknown): string {
+    return JSON.stringify(obj, (key, value) => key.startsWith('_') ? undefined : value);
+}
+
+function getSnippet(result: Result) {
+    return result.locations?.[0]?.physicalLocation?.region?.snippet?.text?.trim() || undefined;
+}
+
+// In order of precedence. Undefined if the result cannot be matched that way.
+const matchKeys: ((result: Result) => string | undefined)[] = [
+    result => {
+        const fingerprints = result.fingerprints ?? result.partialFingerprints;
+        return fingerprints && Object.keys(fingerprints).length ? getResultFingerprint(result) : undefined;
+    },
+    result => JSON.stringify([result.ruleId, result._uri, result._region?.startLine, getSnippet(result)]),
+    result => {
+        const snippet = getSnippet(result); // Such as code that moved within the file.
+        return snippet && JSON.stringify([result.ruleId, result._uri, snippet]);
+    },
+];
+
+// Pairs each result with at most one result of the baseline.
+function matchResults(results: Result[], resultsBaseline: Result[]): Map<Result, Result> {
+    const matches = new Map<Result, Result>();
+    const matched = new Set<Result>();
+    for (const getKey of matchKeys) {
+        const candidates = new Map<string, Result[]>();
+        for (const result of resultsBaseline) {
+            if (matched.has(result)) continue;
+            const key = getKey(result);
+            if (key === undefined) continue;
+            candidates.set(key, [...candidates.get(key) ?? [], result]);
+        }
+        for (const result of results) {
+            if (matches.has(result)) continue;
+            const key = getKey(result);
+            const match = key !== undefined ? candidates.get(key)?.shift() : undefined;
+            if (!match) continue;
+            matches.set(result, match);
+            matched.add(match);
+        }
+    }
+    return matches;
+}
+
+/**
+ * Computes the `baselineState` of each result of `log` relative to `baseline`, replacing any given by the tool.
+ * Runs are compared with the runs of the baseline by the same tool. Results are matched by fingerprint, then by rule
+ * and location (and snippet), then by rule and snippet within the same file.
+ * Baseline results without a match are `absent`. They are appended as copies of their runs, thus the (positional)
+ * ids of the existing results are unchanged.
+ * Both logs are expected to be augmented, and are not modified.
+ * @returns The text of the compared log.
+ */
+export function compareWithBaseline(log: Log, baseline: Log): { text: string, counts: BaselineCounts } {
+    const counts: BaselineCounts = { new: 0, unchanged: 0, updated: 0, absent: 0 };
+    const compared = JSON.parse(serialize(log)) as Log;
+    const matchedBaseline = new Set<Result>();
+
+    compared.runs = compared.runs.filter(run => !isAbsentRun(run)); // Always last, thus the other runs keep their index.
+    log.runs.forEach((run, runIndex) => {
+        if (isAbsentRun(run)) return;
+        const runsBaseline = baseline.runs.filter(runBaseline => runBaseline.tool.driver.name === run.tool.driver.name);
+        const matches = matchResults(run.results ?? [], runsBaseline.map(run => run.results ?? []).flat());
+        run.results?.forEach((result, resultIndex) => {
+            const match = matches.get(result);
+            const state = !match
+                ? 'new'
+                : result._message === match._message && result._uri === match._uri && result._region?.startLine === match._region?.startLine
+                    ? 'unchanged'
+                    : 'updated';
+            compared.runs[runIndex].results![resultIndex].baselineState = state;
+            counts[state]++;
+            if (match) matchedBaseline.add(match);
+        });
+    });
+
+    // Copies of the runs keep the rules, artifacts and uri bases that the absent results refer to.
+    for (const runBaseline of baseline.runs.filter(run => !isAbsentRun(run))) {
+        const resultsAbsent = runBaseline.results?.filter(result => !matchedBaseline.has(result)) ?? [];
+        if (!resultsAbsent.length) continue;
+        const runAbsent = JSON.parse(serialize(runBaseline)) as Run;
+        runAbsent.properties = { ...runAbsent.properties, [absentRunProperty]: true };
+        runAbsent.results = resultsAbsent.map(result => ({
+            ...JSON.parse(serialize(result)),
+            baselineState: 'absent',
+        }));
+        compared.runs.push(runAbsent);
+        counts.absent += resultsAbsent.length;
+    }
+
+    return { text: JSON.stringify(compared), counts };
+}
@@ -0,0 +1,63 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { deflateRawSync } from 'zlib';
+import { readZip } from './decompressLog';
+
+// Builds a minimal zip. CRCs are left zero as they are not verified.
+function createZip(files: Record<string, { text: string, deflate?: boolean }>): Buffer {
+    const locals = [] as Buffer[];
+    const centrals = [] as Buffer[];
+    let offset = 0;
+    for (const [name, { text, deflate }] of Object.entries(files)) {
+        const nameBuffer = Buffer.from(name, 'utf8');
+        const data = deflate ? deflateRawSync(Buffer.from(text)) : Buffer.from(text);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034B50, 0);
+        local.writeUInt16LE(deflate ? 8 : 0, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(text.length, 22);
+        local.writeUInt16LE(nameBuffer.length, 26);
+        locals.push(local, nameBuffer, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014B50, 0);
+        central.writeUInt16LE(deflate ? 8 : 0, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(text.length, 24);
+        central.writeUInt16LE(nameBuffer.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, nameBuffer);
+
+        offset += local.length + nameBuffer.length + data.length;
+    }
+    const centralLength = centrals.reduce((sum, buffer) => sum + buffer.length, 0);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054B50, 0);
+    eocd.writeUInt16LE(Object.keys(files).length, 8);
+    eocd.writeUInt16LE(Object.keys(files).length, 10);
+    eocd.writeUInt32LE(centralLength, 12);
+    eocd.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, ...centrals, eocd]);
+}
+
+describe('readZip', () => {
+    it('reads stored and deflated entries', async () => {
+        const zip = createZip({
+            'a.sarif': { text: '{"version":"2.1.0"}' },
+            'dir/b.sarif': { text: '{"version":"2.1.0","runs":[]}', deflate: true },
+            'readme.txt': { text: 'Ignored' },
+        });
+        const entries = await readZip(zip, name => name.endsWith('.sarif'));
+        assert.deepStrictEqual(entries.map(({ name, buffer }) => [name, buffer.toString()]), [
+            ['a.sarif', '{"version":"2.1.0"}'],
+            ['dir/b.sarif', '{"version":"2.1.0","runs":[]}'],
+        ]);
+    });
+
+    it('rejects non-zip files', async () => {
+        await assert.rejects(readZip(Buffer.from('{}')), /Not a zip file/);
+    });
+});
@@ -0,0 +1,88 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { promises } from 'fs';
+import { brotliDecompress, gunzip, inflateRaw } from 'zlib';
+
+// Available since Node 11.7 (which VS Code exceeds), though missing from our version of `@types/node`.
+declare module 'zlib' {
+    function brotliDecompress(buf: Buffer, callback: (error: Error | null, result: Buffer) => void): void;
+}
+
+// Used by Open dialogs, which only match the last extension.
+export const compressedLogExtensions = ['gz', 'br', 'zip'];
+
+export function isCompressedLog(path: string) {
+    return /\.sarif\.(gz|br|zip)$/i.test(path);
+}
+
+export function isLogFileName(path: string) {
+    return /\.sarif$/i.test(path) || isCompressedLog(path);
+}
+
+// `util.promisify` loses the result type of these overloaded functions.
+function promisify(decompress: (buf: Buffer, callback: (error: Error | null, result: Buffer) => void) => void) {
+    return (buffer: Buffer) => new Promise<Buffer>((resolve, reject) =>
+        decompress(buffer, (error, result) => error ? reject(error) : resolve(result)));
+}
+
+export interface LogEntry {
+    name?: string; // The path within an archive. Undefined for single-log formats (such as gzip).
+    buffer: Buffer;
+}
+
+/**
+ * Decompresses `.sarif.gz`, `.sarif.br` and `.sarif.zip` files.
+ * Zip entries not ending in `.sarif` are ignored.
+ */
+export async function decompressLog(fsPath: string): Promise<LogEntry[]> {
+    const buffer = await promises.readFile(fsPath);
+    if (/\.gz$/i.test(fsPath)) return [{ buffer: await promisify(gunzip)(buffer) }];
+    if (/\.br$/i.test(fsPath)) return [{ buffer: await promisify(brotliDecompress)(buffer) }];
+    if (/\.zip$/i.test(fsPath)) return await readZip(buffer, name => /\.sarif$/i.test(name));
+    throw new Error(`Unsupported compression: ${fsPath}`);
+}
+
+// Zip format: https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+// Only stored and deflated entries are supported (no Zip64 nor encryption), which covers what build tools produce.
+export async function readZip(zip: Buffer, filter: (name: string) => boolean = () => true): Promise<LogEntry[]> {
+    // The End of Central Directory record is at the end, followed by a comment of up to 64KB.
+    let eocd = -1;
+    for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xFFFF); i--) {
+        if (zip.readUInt32LE(i) === 0x06054B50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error('Not a zip file.');
+
+    const entryCount = zip.readUInt16LE(eocd + 10);
+    let offset = zip.readUInt32LE(eocd + 16); // Start of the Central Directory.
+    const entries = [] as LogEntry[];
+    for (let i = 0; i < entryCount; i++) {
+        if (zip.readUInt32LE(offset) !== 0x02014B50) throw new Error('Corrupt zip file.');
+        const flags = zip.readUInt16LE(offset + 8);
+        const method = zip.readUInt16LE(offset + 10);
+        const compressedSize = zip.readUInt32LE(offset + 20);
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const localHeaderOffset = zip.readUInt32LE(offset + 42);
+        const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/') || !filter(name)) continue; // Directories and unwanted entries.
+        if (flags & 0x1) throw new Error(`Encrypted zip entries are not supported: ${name}`);
+        if (compressedSize === 0xFFFFFFFF) throw new Error(`Zip64 entries are not supported: ${name}`);
+
+        // The local header repeats the name, but may have a different extra field length.
+        const dataStart = localHeaderOffset + 30 + zip.readUInt16LE(localHeaderOffset + 26) + zip.readUInt16LE(localHeaderOffset + 28);
+        const data = zip.slice(dataStart, dataStart + compressedSize);
+        switch (method) {
+            case 0: entries.push({ name, buffer: data }); break;
+            case 8: entries.push({ name, buffer: await promisify(inflateRaw)(data) }); break;
+            default: throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+        }
+    }
+    return entries;
+}
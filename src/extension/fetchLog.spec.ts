@@ -0,0 +1,83 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { URI as Uri } from 'vscode-uri';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('fetchLog', () => {
+    const log = { version: '2.1.0', runs: [] };
+    let server: Server;
+    let origin: string;
+    let lastHeaders: IncomingHttpHeaders | undefined;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            lastHeaders = request.headers;
+            if (request.url === '/results.sarif') {
+                response.writeHead(200, { 'Content-Type': 'application/sarif+json' });
+                response.end(JSON.stringify(log));
+            } else {
+                response.writeHead(404);
+                response.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const makeStubs = () => {
+        const errors = [] as string[];
+        const loaded = [] as { uri: string, text: string }[];
+        const stubs = {
+            'vscode': {
+                Uri,
+                ProgressLocation: { Notification: 15 },
+                authentication: {
+                    getSession: async (providerId: string) => ({ accessToken: `${providerId}-token` }),
+                },
+                window: {
+                    showErrorMessage: (message: string) => errors.push(message),
+                    withProgress: (_options: unknown, task: any) => task({ report: () => { } }, { isCancellationRequested: false }),
+                },
+            },
+            './loadLogs': {
+                loadLogsFromText: async (entries: { uri: string, text: string }[]) => {
+                    loaded.push(...entries);
+                    return entries.map(({ uri, text }) => ({ ...JSON.parse(text), _uri: uri, _text: text }));
+                },
+            },
+            './update': {
+                getHttpsProxyAgent: () => undefined,
+            },
+        };
+        return { stubs, errors, loaded };
+    };
+
+    it('fetches', async () => {
+        const { stubs } = makeStubs();
+        const { fetchLogText } = proxyquire('./fetchLog', stubs);
+        assert.deepStrictEqual(JSON.parse(await fetchLogText(`${origin}/results.sarif`)), log);
+        assert.strictEqual(lastHeaders?.authorization, undefined);
+        await assert.rejects(fetchLogText(`${origin}/missing.sarif`), /404/);
+    });
+
+    it('loads logs via text, with bearer tokens', async () => {
+        const { stubs, errors, loaded } = makeStubs();
+        const { loadLogsFromUrls } = proxyquire('./fetchLog', stubs);
+        const logs = await loadLogsFromUrls([`${origin}/results.sarif`, `${origin}/missing.sarif`], { authenticationProviderId: 'github' });
+        assert.strictEqual(lastHeaders?.authorization, 'Bearer github-token');
+        assert.deepStrictEqual(loaded.map(entry => entry.uri), [`${origin}/results.sarif`]);
+        assert.strictEqual(logs[0]._text, JSON.stringify(log));
+        assert.strictEqual(errors.length, 1);
+    });
+});
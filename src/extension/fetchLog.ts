@@ -0,0 +1,62 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import fetch from 'node-fetch';
+import { authentication, CancellationToken, ProgressLocation, Uri, window } from 'vscode';
+import { loadLogsFromText } from './loadLogs';
+import { getHttpsProxyAgent } from './update';
+
+export interface FetchLogOptions {
+    /**
+     * A VS Code authentication provider (such as `github` or `microsoft`). If given, requests include the session's
+     * access token as a bearer token.
+     */
+    authenticationProviderId?: string;
+    scopes?: string[];
+}
+
+/**
+ * Fetches the text of a log. Requests go through the same proxy (if any) as extension updates.
+ * @param accessToken Sent as a bearer token if given.
+ */
+export async function fetchLogText(url: string, accessToken?: string): Promise<string> {
+    const response = await fetch(url, {
+        agent: url.startsWith('https:') ? getHttpsProxyAgent() : undefined, // The agent only tunnels HTTPS.
+        headers: {
+            'Accept': 'application/sarif+json, application/json',
+            'User-Agent': 'MS-SarifVSCode.sarif-viewer',
+            ...accessToken && { 'Authorization': `Bearer ${accessToken}` },
+        },
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return await response.text();
+}
+
+export async function loadLogsFromUrls(urls: string[], options: FetchLogOptions = {}, cancellationToken?: CancellationToken) {
+    const { authenticationProviderId, scopes = [] } = options;
+    const accessToken = authenticationProviderId
+        ? (await authentication.getSession(authenticationProviderId, scopes, { createIfNone: true }))?.accessToken
+        : undefined;
+
+    return await window.withProgress(
+        { location: ProgressLocation.Notification, title: 'Loading SARIF', cancellable: true },
+        async (progress, progressToken) => {
+            const token = {
+                get isCancellationRequested() {
+                    return progressToken.isCancellationRequested || !!cancellationToken?.isCancellationRequested;
+                }
+            };
+            const entries = [] as { uri: string, text: string }[];
+            for (const url of urls) {
+                if (token.isCancellationRequested) break;
+                progress.report({ message: url, increment: 100 / urls.length });
+                try {
+                    // Normalized so the log can be closed by the same `Uri`.
+                    entries.push({ uri: Uri.parse(url, true).toString(), text: await fetchLogText(url, accessToken) });
+                } catch (error) {
+                    window.showErrorMessage(`Failed to fetch '${url}': ${error instanceof Error ? error.message : error}`);
+                }
+            }
+            return await loadLogsFromText(entries, token);
+        });
+}
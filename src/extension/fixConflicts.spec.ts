@@ -0,0 +1,36 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { EditSpan, partitionConflicts } from './fixConflicts';
+
+describe('partitionConflicts', () => {
+    const partition = (items: EditSpan[][]) => {
+        const { applicable, conflicting } = partitionConflicts(items, spans => spans);
+        return { applicable: applicable.map(item => items.indexOf(item)), conflicting: conflicting.map(item => items.indexOf(item)) };
+    };
+
+    it('accepts adjacent and disjoint spans', () => {
+        assert.deepStrictEqual(partition([
+            [{ uri: 'a', start: 0, end: 5 }],
+            [{ uri: 'a', start: 5, end: 8 }],
+            [{ uri: 'b', start: 0, end: 5 }],
+        ]), { applicable: [0, 1, 2], conflicting: [] });
+    });
+
+    it('rejects overlapping spans, in order', () => {
+        assert.deepStrictEqual(partition([
+            [{ uri: 'a', start: 0, end: 5 }],
+            [{ uri: 'a', start: 4, end: 6 }],
+            [{ uri: 'a', start: 6, end: 7 }, { uri: 'b', start: 1, end: 3 }],
+            [{ uri: 'b', start: 2, end: 2 }],
+        ]), { applicable: [0, 2], conflicting: [1, 3] });
+    });
+
+    it('rejects insertions at the same offset', () => {
+        assert.deepStrictEqual(partition([
+            [{ uri: 'a', start: 3, end: 3 }],
+            [{ uri: 'a', start: 3, end: 3 }],
+        ]), { applicable: [0], conflicting: [1] });
+    });
+});
@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+// A span of text replaced by an edit. Offsets are within the document of `uri`.
+export interface EditSpan {
+    uri: string;
+    start: number;
+    end: number;
+}
+
+function overlaps(a: EditSpan, b: EditSpan) {
+    if (a.uri !== b.uri) return false;
+    if (a.start === b.start) return true; // Includes insertions at the same offset, as their order would be ambiguous.
+    return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Partitions items (such as fixes) into those that can be applied together, and those that conflict.
+ * Items are taken in order, thus an item conflicts if it overlaps any item accepted before it.
+ */
+export function partitionConflicts<T>(items: T[], getSpans: (item: T) => EditSpan[]) {
+    const applicable = [] as T[];
+    const conflicting = [] as T[];
+    const spansApplicable = [] as EditSpan[];
+    for (const item of items) {
+        const spans = getSpans(item);
+        if (spans.some(span => spansApplicable.some(other => overlaps(span, other)))) {
+            conflicting.push(item);
+        } else {
+            applicable.push(item);
+            spansApplicable.push(...spans);
+        }
+    }
+    return { applicable, conflicting };
+}
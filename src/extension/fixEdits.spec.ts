@@ -0,0 +1,274 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { ArtifactContent } from 'sarif';
+import { URI as Uri } from 'vscode-uri';
+import { mockVscode } from '../test/mockVscode';
+import { FileEdits } from './fixEdits';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('fixEdits', () => {
+    const { applyByteReplacements, applyEditsToText, byteRegionToCharRegion, getInsertedText } = proxyquire('./fixEdits', {
+        'vscode': {
+            '@global': true,
+            ...mockVscode,
+        },
+        './getOriginalDoc': {},
+        './uriRebaser': {},
+    });
+
+    it('applies several edits to text, regardless of their order', () => {
+        const text = 'one\ntwo\nthree\n';
+        const doc = {
+            getText: () => text,
+            offsetAt: ({ line, character }: { line: number, character: number }) =>
+                text.split('\n').slice(0, line).reduce((offset, lineText) => offset + lineText.length + 1, 0) + character,
+        };
+        const edit = (line: number, start: number, end: number, newText: string) => ({
+            range: { start: { line, character: start }, end: { line, character: end } },
+            newText,
+        });
+        assert.strictEqual(applyEditsToText(doc, []), text);
+        assert.strictEqual(applyEditsToText(doc, [
+            edit(0, 0, 3, '1'), // Shorter, thus would shift the later edits if applied first.
+            edit(2, 0, 0, '>> '),
+            edit(1, 1, 2, 'WWW'),
+        ]), '1\ntWWWo\n>> three\n');
+    });
+
+    it('decodes inserted content', () => {
+        assert.strictEqual(getInsertedText({ text: 'a' }), 'a');
+        assert.strictEqual(getInsertedText({ binary: Buffer.from('é').toString('base64') }), 'é');
+        assert.strictEqual(getInsertedText(undefined), '');
+    });
+
+    it('translates byte regions to char regions', () => {
+        // 'é' is 2 bytes in UTF-8.
+        assert.deepStrictEqual(byteRegionToCharRegion('aébc', { byteOffset: 3, byteLength: 2 }), { charOffset: 2, charLength: 2 });
+        assert.deepStrictEqual(byteRegionToCharRegion('aébc', { byteOffset: 1 }), { charOffset: 1, charLength: 0 });
+    });
+
+    it('applies byte replacements', () => {
+        const bytes = Buffer.from([0, 1, 2, 3, 4]);
+        const result = applyByteReplacements(bytes, [
+            { deletedRegion: { byteOffset: 1, byteLength: 1 }, insertedContent: { binary: Buffer.from([9, 9]).toString('base64') } },
+            { deletedRegion: { byteOffset: 3, byteLength: 2 } },
+            { deletedRegion: { startLine: 1 }, insertedContent: { text: 'ignored' } },
+        ]);
+        assert.deepStrictEqual([...result], [0, 9, 9, 2]);
+    });
+});
+
+describe('getFixEdits', () => {
+    class Position {
+        constructor(readonly line: number, readonly character: number) {}
+    }
+    class Range {
+        constructor(readonly start: Position, readonly end: Position) {}
+    }
+    class TextEdit {
+        constructor(readonly range: { start: Position, end: Position }, readonly newText: string) {}
+        static insert(position: Position, newText: string) { return new TextEdit({ start: position, end: position }, newText); }
+    }
+
+    let files: Map<string, string | Buffer>; // Keyed by path.
+    let gitRoots: Uri[];
+    const folders = ['/a', '/b'].map((path, index) => ({ uri: Uri.file(path), name: path.file, index }));
+    const { addFileEdits, getFixEdits } = proxyquire('./fixEdits', {
+        'vscode': {
+            '@global': true,
+            ...mockVscode,
+            EndOfLine: { LF: 1, CRLF: 2 },
+            Position,
+            Range,
+            TextEdit,
+            workspace: {
+                ...mockVscode.workspace,
+                workspaceFolders: folders,
+                fs: {
+                    readFile: async (uri: Uri) => files.get(uri.path),
+                    stat: async (uri: Uri) => {
+                        if (![...files.keys()].some(path => path === uri.path || path.startsWith(`${uri.path}/`))) throw new Error();
+                    },
+                },
+                openTextDocument: async (uri: Uri) => {
+                    const text = files.get(uri.path);
+                    if (typeof text !== 'string') throw new Error('Binary.');
+                    const lines = text.split('\n');
+                    return {
+                        uri, version: 1, eol: 1, lineCount: lines.length,
+                        getText: () => text,
+                        lineAt: (line: number) => ({
+                            range: { end: new Position(line, lines[line].length) },
+                            firstNonWhitespaceCharacterIndex: lines[line].search(/\S|$/),
+                        }),
+                    };
+                },
+            },
+        },
+        './getOriginalDoc': { getOriginalDoc: async () => undefined },
+        './index.activateGithubAnalyses': {
+            getInitializedGitApi: async () => ({ repositories: gitRoots.map(rootUri => ({ rootUri })) }),
+        },
+        './uriRebaser': {},
+    });
+
+    // Artifacts are at their path locally, if they exist.
+    let located: string[]; // Artifacts the user would be prompted to locate.
+    const baser = {
+        tryTranslateArtifactToLocal: async (uri: string) => files.has(uri) ? Uri.file(uri) : undefined,
+        translateArtifactToLocal: async (uri: string) => {
+            located.push(uri);
+            return files.has(uri) ? Uri.file(uri) : undefined;
+        },
+        translateNewArtifactToLocal: async (uri: string) => Uri.file(uri),
+    };
+    const result = {
+        _run: {
+            artifacts: [
+                { location: { uri: '/added.c' }, roles: ['added'] },
+                { location: { uri: '/deleted.c' }, roles: ['deleted'] },
+                { location: { uri: '/added.png' }, roles: ['added'] },
+            ],
+        },
+    };
+    const insertion = (insertedContent: ArtifactContent) => ({ deletedRegion: { startLine: 1, startColumn: 1, endColumn: 1 }, insertedContent });
+
+    beforeEach(() => {
+        files = new Map<string, string | Buffer>([
+            ['/deleted.c', 'deleted'],
+            ['/old.c', 'old'],
+            ['/image.png', Buffer.from([0, 1, 2])],
+        ]);
+        gitRoots = [];
+        located = [];
+    });
+
+    it('creates new files by role', async () => {
+        const [fileEdit] = await getFixEdits({ artifactChanges: [
+            { artifactLocation: { index: 0 }, replacements: [insertion({ text: 'one ' }), insertion({ text: 'two' })] },
+        ] }, result, baser, {});
+        assert.strictEqual(fileEdit.uri.path, '/added.c');
+        assert.strictEqual(fileEdit.create, true);
+        assert.deepStrictEqual(fileEdit.edits.map((edit: TextEdit) => edit.newText), ['one two']);
+        assert.deepStrictEqual(located, []);
+    });
+
+    it('inserts at the start of existing files, rather than creating them', async () => {
+        const fileEdits = await getFixEdits({ artifactChanges: [
+            { artifactLocation: { uri: '/old.c' }, replacements: [insertion({ text: '#include <a.h>\n' })] },
+            { artifactLocation: { uri: '/missing.c' }, replacements: [insertion({ text: '#include <a.h>\n' })] }, // Not located, thus skipped.
+        ] }, result, baser, {});
+        assert.deepStrictEqual(located, ['/old.c', '/missing.c']);
+        assert.deepStrictEqual(fileEdits.map(({ uri, create, doc, edits }: FileEdits) => ({ path: uri.path, create, hasDoc: !!doc, texts: edits.map(edit => edit.newText) })), [
+            { path: '/old.c', create: undefined, hasDoc: true, texts: ['#include <a.h>\n'] },
+        ]);
+    });
+
+    it('creates new binary files', async () => {
+        const [fileEdit] = await getFixEdits({ artifactChanges: [
+            { artifactLocation: { index: 2 }, replacements: [insertion({ binary: Buffer.from([1, 2]).toString('base64') })] },
+        ] }, result, baser, {});
+        assert.strictEqual(fileEdit.create, true);
+        assert.deepStrictEqual(fileEdit.edits, []);
+        assert.deepStrictEqual([...fileEdit.content], [1, 2]);
+    });
+
+    it('deletes files by role, ignoring their replacements', async () => {
+        const [fileEdit] = await getFixEdits({ artifactChanges: [
+            { artifactLocation: { index: 1 }, replacements: [{ deletedRegion: { startLine: 1 } }] },
+        ] }, result, baser, {});
+        assert.strictEqual(fileEdit.uri.path, '/deleted.c');
+        assert.strictEqual(fileEdit.delete, true);
+        assert.deepStrictEqual(fileEdit.edits, []);
+    });
+
+    it('renames files', async () => {
+        const [fileEdit] = await getFixEdits({ artifactChanges: [
+            { artifactLocation: { uri: '/old.c' }, replacements: [], properties: { renameTo: { uri: '/renamed.c' } } },
+        ] }, result, baser, {});
+        assert.strictEqual(fileEdit.uri.path, '/old.c');
+        assert.strictEqual(fileEdit.renameTo.path, '/renamed.c');
+        assert.strictEqual(fileEdit.create, undefined);
+    });
+
+    it('applies byte replacements to existing binary files', async () => {
+        const [fileEdit] = await getFixEdits({ artifactChanges: [
+            { artifactLocation: { uri: '/image.png' }, replacements: [{ deletedRegion: { byteOffset: 1, byteLength: 1 }, insertedContent: { binary: Buffer.from([9]).toString('base64') } }] },
+            { artifactLocation: { uri: '/image.png' }, replacements: [{ deletedRegion: { byteOffset: 0, byteLength: 1 } }] }, // Builds on the prior change.
+        ] }, result, baser, {});
+        assert.strictEqual(fileEdit.doc, undefined);
+        assert.deepStrictEqual([...fileEdit.content], [9, 2]);
+    });
+
+    it('adds file edits to a workspace edit in order', () => {
+        const calls = [] as string[];
+        const edit = {
+            createFile: (uri: Uri) => calls.push(`create ${uri.path}`),
+            replace: (uri: Uri, _range: unknown, newText: string) => calls.push(`replace ${uri.path} ${newText}`),
+            renameFile: (uri: Uri, newUri: Uri) => calls.push(`rename ${uri.path} ${newUri.path}`),
+            deleteFile: (uri: Uri) => calls.push(`delete ${uri.path}`),
+        };
+        const edits = [TextEdit.insert(new Position(0, 0), 'a'), TextEdit.insert(new Position(1, 0), 'b')];
+        addFileEdits(edit, { uri: Uri.file('/new.c'), create: true, edits });
+        addFileEdits(edit, { uri: Uri.file('/old.c'), edits, renameTo: Uri.file('/renamed.c') });
+        addFileEdits(edit, { uri: Uri.file('/deleted.c'), delete: true, edits: [] });
+        assert.deepStrictEqual(calls, [
+            'create /new.c', 'replace /new.c a', 'replace /new.c b',
+            'replace /old.c a', 'replace /old.c b', 'rename /old.c /renamed.c',
+            'delete /deleted.c',
+        ]);
+    });
+
+    describe('of patches', () => {
+        const patchOf = (oldPath: string, newPath: string, lines: string[]) => [
+            `--- ${oldPath === '/dev/null' ? oldPath : `a/${oldPath}`}`,
+            `+++ ${newPath === '/dev/null' ? newPath : `b/${newPath}`}`,
+            `@@ -${oldPath === '/dev/null' ? '0,0' : '1'} +1 @@`,
+            ...lines,
+        ].join('\n');
+        const fixOf = (...patches: string[]) => ({ artifactChanges: [], properties: { diff: `${patches.join('\n')}\n` } });
+        const resultAt = (uri: string) => ({ ...result, locations: [{ physicalLocation: { artifactLocation: { uri } } }] });
+
+        it('routes each file to the first root where it exists', async () => {
+            files.set('/b/src/b.c', 'one\n');
+            const [fileEdit] = await getFixEdits(fixOf(patchOf('src/b.c', 'src/b.c', ['-one', '+two'])), result, baser, {});
+            assert.strictEqual(fileEdit.uri.path, '/b/src/b.c');
+            assert.deepStrictEqual(fileEdit.edits.map((edit: TextEdit) => edit.newText), ['two\n']);
+        });
+
+        it('prefers the roots containing the result, innermost first', async () => {
+            gitRoots = [Uri.file('/b'), Uri.file('/b/sub')];
+            files.set('/a/c.c', 'one');
+            files.set('/b/c.c', 'one');
+            files.set('/b/sub/c.c', 'one');
+            files.set('/b/sub/result.c', '');
+            const [fileEdit] = await getFixEdits(fixOf(patchOf('c.c', 'c.c', ['-one', '+two'])), resultAt('/b/sub/result.c'), baser, {});
+            assert.strictEqual(fileEdit.uri.path, '/b/sub/c.c');
+        });
+
+        it('places new files where their folder exists, otherwise in the first root', async () => {
+            files.set('/b/lib/existing.c', '');
+            const fileEdits = await getFixEdits(fixOf(
+                patchOf('/dev/null', 'lib/new.c', ['+new']),
+                patchOf('/dev/null', 'docs/new.md', ['+new']),
+            ), result, baser, {});
+            assert.deepStrictEqual(fileEdits.map(({ uri, create }: FileEdits) => ({ path: uri.path, create })), [
+                { path: '/b/lib/new.c', create: true },
+                { path: '/a/docs/new.md', create: true },
+            ]);
+        });
+
+        it('fails if a file is found in no root', async () => {
+            files.set('/a/src/a.c', 'one');
+            await assert.rejects(getFixEdits(fixOf(
+                patchOf('src/a.c', 'src/a.c', ['-one', '+two']),
+                patchOf('src/missing.c', 'src/missing.c', ['-one', '+two']),
+            ), result, baser, {}), {
+                message: 'The patch does not apply. 1 failure(s):\nsrc/missing.c: Not found in any repository or workspace folder.',
+            });
+        });
+    });
+});
@@ -0,0 +1,275 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { diffChars } from 'diff';
+import { ArtifactContent, ArtifactLocation, Fix, Region, Replacement, Result } from 'sarif';
+import { EndOfLine, OutputChannel, Position, Range, TextDocument, TextEdit, Uri, window, workspace, WorkspaceEdit } from 'vscode';
+import * as path from 'path';
+import { parseArtifactLocation } from '../shared';
+import { EditSpan } from './fixConflicts';
+import { getOriginalDoc } from './getOriginalDoc';
+import { getInitializedGitApi } from './index.activateGithubAnalyses';
+import { describeHunkFailure, getNewText, locateHunks, parseFilePatches } from './patch';
+import { driftedRegionToSelection } from './regionToSelection';
+import { Store } from './store';
+import { UriRebaser } from './uriRebaser';
+import uriExists from './uriExists';
+
+// The changes of a fix to one local file.
+export interface FileEdits {
+    uri: Uri;
+    doc?: TextDocument; // Of an existing text file, which the `edits` apply to.
+    version?: number; // Of `doc` when the edits were computed.
+    edits: TextEdit[];
+    create?: boolean;
+    delete?: boolean;
+    renameTo?: Uri;
+    content?: Uint8Array; // Of a binary file, written once the edit is applied. As `WorkspaceEdit` only supports text.
+}
+
+/**
+ * The changes of the `artifactChanges` of a fix, per local file. Regions are adjusted for drift since the analysis.
+ *
+ * Beyond replacements within existing files, SARIF expresses:
+ * - New files with an artifact role of `added`.
+ * - Deleted files with an artifact role of `deleted`. Their replacements are ignored.
+ * Renames are not expressible, thus are given by `artifactChange.properties.renameTo` (an `ArtifactLocation`).
+ * Binary files require `byteOffset` regions.
+ *
+ * Some fixes are instead given as a unified diff in `fix.properties.diff`. See `getPatchEdits`.
+ */
+export async function getFixEdits(fix: Fix, result: Result, baser: UriRebaser, store: Pick<Store, 'analysisInfo'>): Promise<FileEdits[]> {
+    const diff = fix.properties?.diff as string | undefined;
+    if (diff) return getPatchEdits(diff, result, baser);
+
+    const fileEdits = new Map<string, FileEdits>();
+    for (const artifactChange of fix.artifactChanges) {
+        const { artifactLocation, replacements } = artifactChange;
+        const [uri, uriBase] = parseArtifactLocation(result, artifactLocation);
+        const artifactUri = uri;
+        if (!artifactUri) continue;
+
+        const roles = artifactLocation.index === undefined ? undefined : result._run.artifacts?.[artifactLocation.index]?.roles;
+        const isNew = !!roles?.includes('added'); // Not inferred from insertions at the start, as also made to existing files.
+        const localUri = isNew
+            ? await baser.translateNewArtifactToLocal(artifactUri, uriBase, result)
+            : await baser.translateArtifactToLocal(artifactUri, uriBase, undefined, result);
+        if (!localUri) continue;
+
+        // Multiple `artifactChanges` may target the same file.
+        const key = localUri.toString();
+        if (!fileEdits.has(key)) fileEdits.set(key, { uri: localUri, edits: [] });
+        const fileEdit = fileEdits.get(key)!;
+
+        if (roles?.includes('deleted')) {
+            fileEdit.delete = true;
+            continue;
+        }
+
+        const renameTo = artifactChange.properties?.renameTo as ArtifactLocation | undefined;
+        if (renameTo) {
+            const [uri, uriBase] = parseArtifactLocation(result, renameTo);
+            fileEdit.renameTo = uri ? await baser.translateNewArtifactToLocal(uri, uriBase, result) : undefined;
+        }
+
+        if (isNew) {
+            fileEdit.create = true;
+            const contents = replacements.map(({insertedContent}) => insertedContent);
+            if (contents.some(content => content?.binary !== undefined)) {
+                fileEdit.content = Buffer.concat(contents.map(getInsertedBytes));
+            } else {
+                fileEdit.edits.push(TextEdit.insert(new Position(0, 0), contents.map(getInsertedText).join('')));
+            }
+            continue;
+        }
+
+        const currentDoc = await tryOpenTextDocument(localUri);
+        if (!currentDoc) {
+            fileEdit.content = applyByteReplacements(fileEdit.content ?? await workspace.fs.readFile(localUri), replacements);
+            continue;
+        }
+        fileEdit.doc = currentDoc;
+        fileEdit.version = currentDoc.version;
+
+        const originalDoc = await getOriginalDoc(store.analysisInfo?.commit_sha, currentDoc);
+        const diffBlocks = originalDoc ? diffChars(originalDoc.getText(), currentDoc.getText()) : [];
+
+        for (const replacement of replacements) {
+            const { deletedRegion, insertedContent } = replacement;
+            const region = deletedRegion.byteOffset !== undefined
+                ? byteRegionToCharRegion((originalDoc ?? currentDoc).getText(), deletedRegion)
+                : deletedRegion;
+            fileEdit.edits.push(new TextEdit(
+                driftedRegionToSelection(diffBlocks, currentDoc, region, originalDoc),
+                getInsertedText(insertedContent),
+            ));
+        }
+    }
+    return [...fileEdits.values()];
+}
+
+/**
+ * Paths within the patch are relative to the repository (or folder) it was made in. Each file is routed to the
+ * first candidate root (see `getPatchRoots`) where it exists. Hunks are located as per `locateHunks`.
+ * @throws If any file is not found, or any hunk does not apply. With the context of each failure.
+ */
+async function getPatchEdits(diff: string, result: Result, baser: UriRebaser): Promise<FileEdits[]> {
+    const roots = await getPatchRoots(result, baser);
+    const fileEdits = [] as FileEdits[];
+    const failures = [] as string[];
+    for (const { oldPath, newPath, hunks } of parseFilePatches(diff)) {
+        const filePath = oldPath ?? newPath;
+        if (!filePath) continue;
+
+        const root = await findPatchRoot(roots, filePath, !oldPath);
+        if (!root) {
+            failures.push(`${filePath}: Not found in any repository or workspace folder.`);
+            continue;
+        }
+        const uri = Uri.joinPath(root, filePath);
+
+        if (!oldPath) {
+            fileEdits.push({ uri, create: true, edits: [TextEdit.insert(new Position(0, 0), getNewText(hunks))] });
+            continue;
+        }
+        if (!newPath) {
+            fileEdits.push({ uri, delete: true, edits: [] });
+            continue;
+        }
+
+        const doc = await workspace.openTextDocument(uri);
+        const lines = doc.getText().split(/\r?\n/);
+        const { matches, failures: hunksFailed } = locateHunks(lines, hunks);
+        failures.push(...hunksFailed.map(hunk => describeHunkFailure(oldPath, hunk, lines)));
+
+        const eol = doc.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+        const edits = matches.map(({ start, length, newLines, newEndsWithoutNewline }) => {
+            const end = start + length;
+            const isThroughEnd = end >= doc.lineCount;
+            const newText = newLines.map(line => line + eol).join('');
+            return new TextEdit(
+                new Range(new Position(start, 0), isThroughEnd ? doc.lineAt(doc.lineCount - 1).range.end : new Position(end, 0)),
+                isThroughEnd && newEndsWithoutNewline ? newText.slice(0, -eol.length) : newText,
+            );
+        });
+        fileEdits.push({
+            uri, doc, version: doc.version, edits,
+            ...newPath !== oldPath && { renameTo: Uri.joinPath(root, newPath) },
+        });
+    }
+    if (failures.length) {
+        throw new Error([`The patch does not apply. ${failures.length} failure(s):`, ...failures].join('\n'));
+    }
+    return fileEdits;
+}
+
+// The Git repositories (if any) and the workspace folders. Those containing the (location of the) result first, innermost first.
+async function getPatchRoots(result: Result, baser: UriRebaser) {
+    const git = await getInitializedGitApi();
+    const roots = [
+        ...git?.repositories.map(repo => repo.rootUri) ?? [],
+        ...(workspace.workspaceFolders ?? []).map(folder => folder.uri),
+    ].filter((root, i, roots) => roots.findIndex(other => other.toString() === root.toString()) === i);
+
+    const [uri, uriBase] = parseArtifactLocation(result, result.locations?.[0]?.physicalLocation?.artifactLocation);
+    const localUri = uri ? await baser.tryTranslateArtifactToLocal(uri, uriBase, result) : undefined;
+    const contains = (root: Uri) => !!localUri?.toString().startsWith(`${root.toString()}/`);
+    return [
+        ...roots.filter(contains).sort((a, b) => b.path.length - a.path.length),
+        ...roots.filter(root => !contains(root)),
+    ];
+}
+
+// New files are placed where their folder exists, otherwise in the first root.
+async function findPatchRoot(roots: Uri[], filePath: string, isNew: boolean) {
+    for (const root of roots) {
+        const uri = Uri.joinPath(root, filePath);
+        if (await uriExists(isNew ? uri.with({ path: path.posix.dirname(uri.path) }) : uri)) return root;
+    }
+    return isNew ? roots[0] : undefined;
+}
+
+// The first line of the message is shown. The rest (such as the context of failed hunks) is written to the output channel.
+export async function showFixError(error: unknown, outputChannel: OutputChannel) {
+    const message = error instanceof Error ? error.message : String(error);
+    const [summary, ...details] = message.split('\n');
+    if (!details.length) {
+        void window.showErrorMessage(summary);
+        return;
+    }
+    outputChannel.appendLine(message);
+    if (await window.showErrorMessage(summary, 'Show Details')) outputChannel.show();
+}
+
+export function addFileEdits(edit: WorkspaceEdit, { uri, edits, create, delete: isDelete, renameTo }: FileEdits) {
+    if (create) edit.createFile(uri); // Fails if the file exists, rather than overwriting it.
+    for (const { range, newText } of edits) edit.replace(uri, range, newText);
+    if (renameTo) edit.renameFile(uri, renameTo);
+    if (isDelete) edit.deleteFile(uri);
+}
+
+// The text of the document once the edits are applied, such as to preview them.
+export function applyEditsToText(doc: Pick<TextDocument, 'getText' | 'offsetAt'>, edits: TextEdit[]) {
+    return edits
+        .map(({range, newText}) => ({ start: doc.offsetAt(range.start), end: doc.offsetAt(range.end), newText }))
+        .sort((a, b) => b.start - a.start) // Last to first, thus the offsets of the remaining edits are unaffected.
+        .reduce((text, {start, end, newText}) => text.slice(0, start) + newText + text.slice(end), doc.getText());
+}
+
+// For after the `WorkspaceEdit` is applied. See `FileEdits.content`.
+export async function writeFileContents(fileEdits: FileEdits[]) {
+    for (const { uri, renameTo, delete: isDelete, content } of fileEdits) {
+        if (!content || isDelete) continue;
+        await workspace.fs.writeFile(renameTo ?? uri, content);
+    }
+}
+
+// Changes other than to text occupy the whole file, thus conflict with any other change to it.
+export function getEditSpans({ uri, doc, edits, create, delete: isDelete, renameTo, content }: FileEdits): EditSpan[] {
+    const whole = (uri: Uri) => ({ uri: uri.toString(), start: 0, end: Number.MAX_SAFE_INTEGER });
+    if (create || isDelete || content) return [whole(uri)];
+    return [
+        ...renameTo ? [whole(uri), whole(renameTo)] : [],
+        ...doc ? edits.map(({ range }) => ({ uri: uri.toString(), start: doc.offsetAt(range.start), end: doc.offsetAt(range.end) })) : [],
+    ];
+}
+
+async function tryOpenTextDocument(uri: Uri) {
+    try {
+        return await workspace.openTextDocument(uri);
+    } catch (error) {
+        return undefined; // Such as if binary.
+    }
+}
+
+export function getInsertedText(content: ArtifactContent | undefined) {
+    if (content?.text !== undefined) return content.text;
+    if (content?.binary !== undefined) return Buffer.from(content.binary, 'base64').toString('utf8');
+    return '';
+}
+
+function getInsertedBytes(content: ArtifactContent | undefined) {
+    if (content?.binary !== undefined) return Buffer.from(content.binary, 'base64');
+    return Buffer.from(content?.text ?? '', 'utf8');
+}
+
+// Byte offsets are of the UTF-8 encoding of the text.
+export function byteRegionToCharRegion(text: string, { byteOffset = 0, byteLength = 0 }: Region): Region {
+    const bytes = Buffer.from(text, 'utf8');
+    return {
+        charOffset: bytes.slice(0, byteOffset).toString('utf8').length,
+        charLength: bytes.slice(byteOffset, byteOffset + byteLength).toString('utf8').length,
+    };
+}
+
+// Replacements without a `byteOffset` do not apply to binary content, thus are ignored.
+export function applyByteReplacements(bytes: Uint8Array, replacements: Replacement[]) {
+    return replacements
+        .filter(({deletedRegion}) => deletedRegion.byteOffset !== undefined)
+        .sort((a, b) => b.deletedRegion.byteOffset! - a.deletedRegion.byteOffset!) // Last to first, thus the offsets of the remaining are unaffected.
+        .reduce((bytes, {deletedRegion, insertedContent}) => {
+            const start = deletedRegion.byteOffset!;
+            const end = start + (deletedRegion.byteLength ?? 0);
+            return Buffer.concat([bytes.slice(0, start), getInsertedBytes(insertedContent), bytes.slice(end)]);
+        }, Buffer.from(bytes));
+}
@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { URI as Uri } from 'vscode-uri';
+import { augmentLog } from '../shared';
+import '../shared/extension';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('getResults', () => {
+    const log = {
+        version: '2.1.0',
+        runs: [{
+            tool: { driver: { name: 'Tool', rules: [{ id: 'R1', name: 'NoEval' }] } },
+            results: [{
+                ruleId: 'R1',
+                level: 'error',
+                message: { text: 'Eval is evil.' },
+                locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///src/a.js' }, region: { startLine: 2 } } }],
+            }, {
+                ruleId: 'R1',
+                level: 'warning',
+                message: { text: 'Eval in tests.' },
+                baselineState: 'unchanged',
+                suppressions: [{ kind: 'inSource' }],
+                locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///src/b.js' }, region: { startLine: 5 } } }],
+            }, {
+                ruleId: 'R2',
+                level: 'note',
+                message: { text: 'No location.' },
+            }],
+        }],
+    } as any as Log;
+    log._uri = 'file:///a.sarif';
+    augmentLog(log);
+    const store = { analysisInfo: undefined, results: log.runs[0].results! };
+    const baser = {
+        tryTranslateArtifactToLocal: async (uri: string) => uri === 'file:///src/a.js' ? Uri.parse('file:///local/a.js') : undefined,
+    };
+    let textDocuments = [] as { uri: Uri }[]; // Open.
+    let opened = [] as string[];
+    const { getResults } = proxyquire('./getResults', {
+        'vscode': {
+            Uri,
+            workspace: {
+                get textDocuments() { return textDocuments; },
+                openTextDocument: async (uri: Uri) => {
+                    opened.push(uri.toString());
+                    return { uri, getText: () => '' };
+                },
+            },
+        },
+        './getOriginalDoc': {
+            getOriginalDoc: async () => undefined,
+        },
+        './regionToSelection': {
+            driftedRegionToSelection: (_diffBlocks: unknown, _currentDoc: unknown, region: any) => ({
+                start: { line: region.startLine, character: 0 }, // Simulate a drift of one line.
+                end: { line: region.startLine, character: 4 },
+            }),
+        },
+    });
+
+    beforeEach(() => {
+        textDocuments = [{ uri: Uri.parse('file:///local/a.js') }];
+        opened = [];
+    });
+
+    it('summarizes', async () => {
+        const results = await getResults(store, baser);
+        assert.deepStrictEqual(JSON.parse(JSON.stringify(results[0])), {
+            id: { logUri: 'file:///a.sarif', runIndex: 0, resultIndex: 0 },
+            ruleId: 'R1',
+            ruleName: 'NoEval',
+            level: 'error',
+            baselineState: 'new',
+            suppression: 'not suppressed',
+            message: 'Eval is evil.',
+            uri: 'file:///local/a.js',
+            range: { start: { line: 2, character: 0 }, end: { line: 2, character: 4 } },
+        });
+        assert.strictEqual(results[1].uri, undefined); // Unresolved.
+        assert.deepStrictEqual(results[1].range, { start: { line: 4, character: 0 }, end: { line: 5, character: 0 } }); // As per the log.
+        assert.strictEqual(results[2].range, undefined); // No location.
+    });
+
+    it('filters', async () => {
+        const ids = async (filter: Record<string, unknown>) => (await getResults(store, baser, filter)).map((result: any) => result.id.resultIndex);
+        assert.deepStrictEqual(await ids({ levels: ['error', 'note'] }), [0, 2]);
+        assert.deepStrictEqual(await ids({ baselineStates: ['unchanged'] }), [1]);
+        assert.deepStrictEqual(await ids({ suppressions: ['not suppressed'] }), [0, 2]);
+        assert.deepStrictEqual(await ids({ keywords: 'tests location' }), [1, 2]);
+        assert.deepStrictEqual(await ids({ keywords: 'noeval' }), [0, 1]); // Rule name.
+        assert.deepStrictEqual(await ids({ uri: Uri.parse('file:///local/a.js') }), [0]);
+    });
+
+    it('adjusts ranges for drift only within open files, or the file filtered to', async () => {
+        textDocuments = [];
+        const [result] = await getResults(store, baser);
+        assert.deepStrictEqual(opened, []);
+        assert.deepStrictEqual(result.range, { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } }); // As per the log.
+
+        const [resultFiltered] = await getResults(store, baser, { uri: Uri.parse('file:///local/a.js') });
+        assert.deepStrictEqual(opened, ['file:///local/a.js']);
+        assert.deepStrictEqual(resultFiltered.range, { start: { line: 2, character: 0 }, end: { line: 2, character: 4 } });
+    });
+});
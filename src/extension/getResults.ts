@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { diffChars } from 'diff';
+import { Region, Result } from 'sarif';
+import { Uri, workspace } from 'vscode';
+import { parseArtifactLocation } from '../shared';
+import '../shared/extension';
+import { getOriginalDoc } from './getOriginalDoc';
+import { ResultFilter, ResultSummary } from './index.d';
+import { driftedRegionToSelection } from './regionToSelection';
+import { Store } from './store';
+import { UriRebaser } from './uriRebaser';
+
+// Mirrors `ResultTableStore.filter` (with the keyword fields being the Panel's columns).
+function filterResult(filter: ResultFilter) {
+    const { levels, baselineStates, suppressions, keywords = '' } = filter;
+    const filterKeywords = keywords.toLowerCase().split(/\s+/).filter(part => part);
+    return (result: Result) => {
+        if (levels && !(levels as string[]).includes(result.level ?? '')) return false;
+        if (baselineStates && !(baselineStates as string[]).includes(result.baselineState ?? '')) return false;
+        if (suppressions && !(suppressions as string[]).includes(result._suppression ?? '')) return false;
+        if (!filterKeywords.length) return true;
+        const fields = [
+            result._region?.startLine?.toString() ?? '—',
+            result._relativeUri ?? '',
+            result._message ?? '',
+            result.baselineState ?? '',
+            result._suppression ?? '',
+            `${result._rule?.name ?? '—'} ${result.ruleId ?? '—'}`,
+        ].map(field => field.toLowerCase());
+        return fields.some(field => filterKeywords.some(keyword => field.includes(keyword)));
+    };
+}
+
+// Zero-based. Without an `endColumn`, the range extends through the end of the line (thus to the start of the next).
+function regionToRange(region: Region | undefined): ResultSummary['range'] {
+    if (region?.startLine === undefined) return undefined;
+    const { startLine, startColumn = 1, endLine = startLine, endColumn } = region;
+    return {
+        start: { line: startLine - 1, character: startColumn - 1 },
+        end: endColumn === undefined ? { line: endLine, character: 0 } : { line: endLine - 1, character: endColumn - 1 },
+    };
+}
+
+export async function getResults(store: Pick<Store, 'analysisInfo' | 'results'>, baser: Pick<UriRebaser, 'tryTranslateArtifactToLocal'>, filter: ResultFilter = {}): Promise<ResultSummary[]> {
+    const results = store.results.filter(filterResult(filter));
+
+    const localUris = new Map<Result, Uri | undefined>();
+    for (const result of results) {
+        const [uri, uriBase, uriContents] = parseArtifactLocation(result, result.locations?.[0]?.physicalLocation?.artifactLocation);
+        localUris.set(result, uriContents
+            ? Uri.parse(uriContents, true) // Embedded content is served by our virtual documents.
+            : uri ? await baser.tryTranslateArtifactToLocal(uri, uriBase, result) : undefined);
+    }
+
+    // Ranges are adjusted for drift once per file, as with diagnostics. Only for files already open (or that of `filter.uri`),
+    // as opening every file (and possibly its original from Git) for a query of a large log would be costly.
+    const openUris = new Set(workspace.textDocuments.map(doc => doc.uri.toString()));
+    const ranges = new Map<Result, ResultSummary['range']>();
+    const resultsByLocalUri = new Map<string, Result[]>();
+    for (const result of results) {
+        const localUri = localUris.get(result);
+        if (!localUri || !result._region) continue;
+        const key = localUri.toString();
+        resultsByLocalUri.set(key, [...resultsByLocalUri.get(key) ?? [], result]);
+    }
+    for (const [localUri, resultsInFile] of resultsByLocalUri) {
+        if (filter.uri ? localUri !== filter.uri.toString() : !openUris.has(localUri)) continue;
+        try {
+            const currentDoc = await workspace.openTextDocument(Uri.parse(localUri, true));
+            const originalDoc = await getOriginalDoc(store.analysisInfo?.commit_sha, currentDoc);
+            const diffBlocks = originalDoc ? diffChars(originalDoc.getText(), currentDoc.getText()) : [];
+            for (const result of resultsInFile) {
+                const { start, end } = driftedRegionToSelection(diffBlocks, currentDoc, result._region, originalDoc);
+                ranges.set(result, {
+                    start: { line: start.line, character: start.character },
+                    end: { line: end.line, character: end.character },
+                });
+            }
+        } catch (error) {
+            // The file could not be opened (such as if binary). Leave the ranges as per the log.
+        }
+    }
+
+    return results
+        .filter(result => !filter.uri || localUris.get(result)?.toString() === filter.uri.toString())
+        .map(result => {
+            const [logUri, runIndex, resultIndex] = result._id;
+            return {
+                id: { logUri, runIndex, resultIndex },
+                ruleId: result.ruleId,
+                ruleName: result._rule?.name,
+                level: result.level ?? 'none',
+                baselineState: result.baselineState ?? 'new',
+                suppression: result._suppression ?? 'not suppressed',
+                message: result._message ?? '',
+                uri: localUris.get(result)?.toString(),
+                range: ranges.get(result) ?? regionToRange(result._region),
+            };
+        });
+}
@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { Disposable } from 'vscode';
+import { ResultId } from '../shared';
+import { mockVscode } from '../test/mockVscode';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateApiEvents', () => {
+    const { activateApiEvents } = proxyquire('./index.activateApiEvents', {
+        'vscode': mockVscode,
+    });
+    const createLog = (uri: string) => ({ _uri: uri, runs: [] } as unknown as Log);
+
+    const activate = () => {
+        const store = new Store();
+        const didSelectResult = new mockVscode.EventEmitter();
+        const panel = { onDidSelectResult: didSelectResult.event };
+        const disposables = [] as Disposable[];
+        const events = [] as string[];
+        const { onDidChangeLogs, onDidSelectResult, onDidChangeResultsFixed } = activateApiEvents(disposables, store, panel);
+        onDidChangeLogs(({ added, removed }: any) => events.push(`logs +${added.join()} -${removed.join()}`));
+        onDidSelectResult(({ logUri, runIndex, resultIndex }: any) => events.push(`select ${logUri} ${runIndex} ${resultIndex}`));
+        onDidChangeResultsFixed(({ added, removed }: any) => events.push(`fixed +${added.map((ref: any) => ref.resultIndex).join()} -${removed.map((ref: any) => ref.resultIndex).join()}`));
+        return { store, didSelectResult, disposables, events };
+    };
+
+    it('fires onDidChangeLogs', () => {
+        const { store, events } = activate();
+        store.logs.push(createLog('file:///a.sarif'), createLog('file:///b.sarif'));
+        store.logs.push(createLog('file:///a.sarif')); // Already open, thus no change.
+        store.logs.removeAll(log => log._uri === 'file:///a.sarif');
+        assert.deepStrictEqual(events, [
+            'logs +file:///a.sarif,file:///b.sarif -',
+            'logs + -file:///a.sarif',
+        ]);
+    });
+
+    it('fires onDidSelectResult', () => {
+        const { didSelectResult, events } = activate();
+        didSelectResult.fire(['file:///a.sarif', 0, 1] as ResultId);
+        assert.deepStrictEqual(events, ['select file:///a.sarif 0 1']);
+    });
+
+    it('fires onDidChangeResultsFixed', () => {
+        const { store, events } = activate();
+        const id = (resultIndex: number) => JSON.stringify(['file:///a.sarif', 0, resultIndex]);
+        store.resultsFixed.push(id(1), id(2));
+        store.resultsFixed.remove(id(1));
+        assert.deepStrictEqual(events, ['fixed +1,2 -', 'fixed + -1']);
+    });
+
+    it('stops firing once disposed', () => {
+        const { store, disposables, events } = activate();
+        disposables.forEach(disposable => disposable.dispose());
+        store.logs.push(createLog('file:///a.sarif'));
+        store.resultsFixed.push(JSON.stringify(['file:///a.sarif', 0, 0]));
+        assert.deepStrictEqual(events, []);
+    });
+});
@@ -0,0 +1,41 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { IArraySplice, observe } from 'mobx';
+import { Log } from 'sarif';
+import { Disposable, EventEmitter, Uri } from 'vscode';
+import { ResultId } from '../shared';
+import { LogsChangeEvent, ResultReference, ResultsFixedChangeEvent } from './index.d';
+import { Panel } from './panel';
+import { Store } from './store';
+
+// The events of the API (see `Api`), relayed from the store and the Panel.
+export function activateApiEvents(disposables: Disposable[], store: Pick<Store, 'logs' | 'resultsFixed'>, panel: Pick<Panel, 'onDidSelectResult'>) {
+    const toResultReference = ([logUri, runIndex, resultIndex]: ResultId): ResultReference => ({ logUri: Uri.parse(logUri), runIndex, resultIndex });
+    const onDidChangeLogs = new EventEmitter<LogsChangeEvent>();
+    const onDidSelectResult = new EventEmitter<ResultReference>();
+    const onDidChangeResultsFixed = new EventEmitter<ResultsFixedChangeEvent>();
+    disposables.push(onDidChangeLogs, onDidSelectResult, onDidChangeResultsFixed);
+    disposables.push({ dispose: observe(store.logs, change => {
+        const { removed, added } = change as unknown as IArraySplice<Log>;
+        if (!removed.length && !added.length) return; // Such as re-opening an already open log.
+        onDidChangeLogs.fire({
+            added: added.map(log => Uri.parse(log._uri)),
+            removed: removed.map(log => Uri.parse(log._uri)),
+        });
+    }) });
+    disposables.push({ dispose: observe(store.resultsFixed, change => {
+        const { removed, added } = change as unknown as IArraySplice<string>;
+        onDidChangeResultsFixed.fire({
+            added: added.map(id => toResultReference(JSON.parse(id))),
+            removed: removed.map(id => toResultReference(JSON.parse(id))),
+        });
+    }) });
+    disposables.push(panel.onDidSelectResult(id => onDidSelectResult.fire(toResultReference(id))));
+    return {
+        onDidChangeLogs: onDidChangeLogs.event,
+        onDidSelectResult: onDidSelectResult.event,
+        onDidChangeResultsFixed: onDidChangeResultsFixed.event,
+    };
+}
@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { Result } from 'sarif';
+import { commands, Disposable, OutputChannel, window, workspace, WorkspaceEdit } from 'vscode';
+import { findResult, parseArtifactLocation, ResultId } from '../shared';
+import '../shared/extension';
+import { partitionConflicts } from './fixConflicts';
+import { addFileEdits, FileEdits, getEditSpans, getFixEdits, writeFileContents } from './fixEdits';
+import { Panel } from './panel';
+import { Store } from './store';
+import { UriRebaser } from './uriRebaser';
+
+export function activateBulkFixes(disposables: Disposable[], store: Pick<Store, 'analysisInfo' | 'logs' | 'results' | 'resultsFixed'>, panel: Pick<Panel, 'getVisibleResultIds'>, baser: UriRebaser, outputChannel: OutputChannel) {
+    const isFixable = (result: Result) => !!result.fixes?.length && !store.resultsFixed.includes(JSON.stringify(result._id));
+    const findContextResult = (context: { resultId: string } | undefined) => context && findResult(store.logs, JSON.parse(context.resultId) as ResultId);
+
+    // From the Panel context menu, the rule of the result. From the command palette, a rule picked by the user.
+    disposables.push(commands.registerCommand('sarif.applyFixesForRule', async (context?: { resultId: string }) => {
+        const ruleKey = (result: Result) => JSON.stringify([result._run.tool.driver.name, result.ruleId]);
+        let key = undefined as string | undefined;
+        const result = findContextResult(context);
+        if (result) {
+            key = ruleKey(result);
+        } else {
+            const counts = new Map<string, number>();
+            for (const result of store.results.filter(isFixable)) {
+                counts.set(ruleKey(result), (counts.get(ruleKey(result)) ?? 0) + 1);
+            }
+            if (!counts.size) {
+                void window.showInformationMessage('No results have fixes to apply.');
+                return;
+            }
+            const item = await window.showQuickPick([...counts].map(([key, count]) => {
+                const [toolName, ruleId] = JSON.parse(key) as [string, string | undefined];
+                return { label: ruleId ?? '—', description: toolName, detail: `${count} fix(es)`, key };
+            }), { placeHolder: 'Apply the fixes of all results of the rule' });
+            key = item?.key;
+        }
+        if (!key) return;
+        await applyFixes(store.results.filter(result => ruleKey(result) === key));
+    }));
+
+    // From the Panel context menu, the file of the result. From the command palette, the file of the active editor.
+    disposables.push(commands.registerCommand('sarif.applyFixesInFile', async (context?: { resultId: string }) => {
+        const result = findContextResult(context);
+        if (result) {
+            await applyFixes(store.results.filter(other => other._uri === result._uri));
+            return;
+        }
+
+        const uri = window.activeTextEditor?.document.uri;
+        if (!uri) {
+            void window.showInformationMessage('Open a file to apply the fixes of its results.');
+            return;
+        }
+        const results = [] as Result[];
+        for (const result of store.results.filter(isFixable)) {
+            const [artifactUri, uriBase] = parseArtifactLocation(result, result.locations?.[0]?.physicalLocation?.artifactLocation);
+            if (!artifactUri) continue;
+            const localUri = await baser.tryTranslateArtifactToLocal(artifactUri, uriBase, result);
+            if (localUri?.toString() === uri.toString()) results.push(result);
+        }
+        await applyFixes(results);
+    }));
+
+    // As filtered in the current tab of the Panel.
+    disposables.push(commands.registerCommand('sarif.applyFixesVisible', async () => {
+        const ids = await panel.getVisibleResultIds();
+        if (!ids) {
+            void window.showInformationMessage('Show the SARIF Results Panel to apply the fixes of its visible results.');
+            return;
+        }
+        await applyFixes(ids.map(id => findResult(store.logs, id)).filter((result): result is Result => !!result));
+    }));
+
+    // Applies the fixes as one edit (thus undoable as one), skipping those that overlap an earlier fix.
+    async function applyFixes(results: Result[]) {
+        const candidates = [] as { result: Result, fileEdits: FileEdits[] }[];
+        const failed = [] as Result[];
+        for (const result of results.filter(isFixable)) {
+            const fix = result.fixes![0]; // Alternative fixes are not combined. The first is assumed to be preferred.
+            try {
+                const fileEdits = await getFixEdits(fix, result, baser, store);
+                if (fileEdits.length) candidates.push({ result, fileEdits });
+            } catch (error) {
+                failed.push(result);
+                outputChannel.appendLine(`${describeResults([result])}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        if (!candidates.length && !failed.length) {
+            void window.showInformationMessage('No results have fixes to apply.');
+            return;
+        }
+
+        const { applicable, conflicting } = partitionConflicts(candidates, ({fileEdits}) => fileEdits.flatMap(getEditSpans));
+
+        if (applicable.length) {
+            const edit = new WorkspaceEdit();
+            for (const {fileEdits} of applicable) {
+                for (const fileEdit of fileEdits) addFileEdits(edit, fileEdit);
+            }
+            if (!await workspace.applyEdit(edit)) {
+                void window.showErrorMessage('Failed to apply the fixes.');
+                return;
+            }
+            await writeFileContents(applicable.map(({fileEdits}) => fileEdits).flat());
+            store.resultsFixed.push(...applicable.map(({result}) => JSON.stringify(result._id)));
+        }
+
+        const skipped = [
+            ...conflicting.length ? [`Skipped ${conflicting.length} that overlap another fix: ${describeResults(conflicting.map(({result}) => result))}.`] : [],
+            ...failed.length ? [`Skipped ${failed.length} that do not apply: ${describeResults(failed)}.`] : [],
+        ];
+        const message = [`Applied ${applicable.length} fix(es).`, ...skipped].join(' ');
+        if (!skipped.length) {
+            void window.showInformationMessage(message);
+            return;
+        }
+        if (failed.length) {
+            if (await window.showWarningMessage(message, 'Show Details')) outputChannel.show();
+        } else {
+            void window.showWarningMessage(message);
+        }
+    }
+}
+
+function describeResults(results: Result[], max = 5) {
+    const descriptions = results.slice(0, max).map(result => `${result.ruleId ?? '—'} (${result._uri?.file ?? '?'}:${result._region?.startLine ?? '?'})`);
+    if (results.length > max) descriptions.push(`and ${results.length - max} more`);
+    return descriptions.join(', ');
+}
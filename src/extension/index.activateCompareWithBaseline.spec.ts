@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log, Result } from 'sarif';
+import { URI as Uri } from 'vscode-uri';
+import { augmentLog } from '../shared';
+import '../shared/extension';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateCompareWithBaseline', () => {
+    const createLog = (uri: string, results: Partial<Result>[]) => {
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                tool: { driver: { name: 'Tool', rules: [{ id: 'R1' }] } },
+                results: results.map(result => ({ ruleId: 'R1', message: { text: 'Message' }, ...result })),
+            }],
+        } as unknown as Log;
+        log._uri = uri;
+        augmentLog(log);
+        return log;
+    };
+    const location = (uri: string, startLine: number) => [{
+        physicalLocation: { artifactLocation: { uri }, region: { startLine } },
+    }];
+
+    it('replaces the log in place with the compared log', async () => {
+        const commands = {} as Record<string, (...args: any[]) => Promise<void>>;
+        const messages = [] as string[];
+        const { activateCompareWithBaseline } = proxyquire('./index.activateCompareWithBaseline', {
+            'vscode': {
+                '@global': true,
+                commands: { registerCommand: (name: string, callback: any) => commands[name] = callback },
+                Uri,
+                window: {
+                    showInformationMessage: async (message: string) => { messages.push(message); },
+                    showQuickPick: async (items: any[]) => items[0], // The first log, then the first other log as the baseline.
+                },
+                workspace: {},
+            },
+            './loadLogs': {
+                loadLogs: async () => [],
+                loadLogsFromText: async (entries: { uri: string, text: string }[]) => entries.map(({ uri, text }) => {
+                    const log = JSON.parse(text) as Log;
+                    log._uri = uri;
+                    augmentLog(log);
+                    return log;
+                }),
+            },
+        });
+
+        const store = new Store();
+        const log = createLog('file:///log.sarif', [
+            { locations: location('/a.js', 1) },
+            { locations: location('/d.js', 1) },
+        ]);
+        const baseline = createLog('file:///baseline.sarif', [
+            { locations: location('/a.js', 1) },
+            { locations: location('/b.js', 5) },
+        ]);
+        store.logs.push(log, baseline);
+        activateCompareWithBaseline([], store);
+
+        await commands['sarif.compareWithBaseline']();
+
+        assert.strictEqual(store.logs.length, 2);
+        const [logCompared] = store.logs;
+        assert.notStrictEqual(logCompared, log);
+        assert.strictEqual(logCompared._uri, 'file:///log.sarif');
+        assert.strictEqual(store.logs[1], baseline);
+        const baselineStates = logCompared.runs.map(run => run.results ?? []).flat().map(result => result.baselineState);
+        assert.deepStrictEqual(baselineStates, ['unchanged', 'new', 'absent']);
+        assert.strictEqual(messages.length, 1);
+    });
+});
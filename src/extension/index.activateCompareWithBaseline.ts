@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { Log } from 'sarif';
+import { commands, Disposable, QuickPickItem, Uri, window, workspace } from 'vscode';
+import { decodeFileUri } from '../shared';
+import { compareWithBaseline } from './compareLogs';
+import { compressedLogExtensions } from './decompressLog';
+import { loadLogs, loadLogsFromText } from './loadLogs';
+import { Store } from './store';
+
+type LogItem = QuickPickItem & { log?: Log };
+
+function toLogItem(log: Log): LogItem {
+    return { label: Uri.parse(log._uri, true).path.file, description: decodeFileUri(log._uri), log };
+}
+
+export function activateCompareWithBaseline(disposables: Disposable[], store: Pick<Store, 'logs'>) {
+    disposables.push(commands.registerCommand('sarif.compareWithBaseline', async () => {
+        if (!store.logs.length) {
+            void window.showInformationMessage('Open a log to compare with a baseline.');
+            return;
+        }
+
+        const log = store.logs.length === 1
+            ? store.logs[0]
+            : (await window.showQuickPick(store.logs.map(toLogItem), { placeHolder: 'Select the log to compare.' }))?.log;
+        if (!log) return;
+
+        const browse: LogItem = { label: 'Browse...' };
+        const item = await window.showQuickPick([...store.logs.filter(other => other !== log).map(toLogItem), browse], {
+            placeHolder: 'Select the baseline log.',
+        });
+        if (!item) return;
+        const baseline = item.log ?? await (async () => {
+            const uris = await window.showOpenDialog({
+                defaultUri: workspace.workspaceFolders?.[0]?.uri,
+                filters: { 'SARIF files': ['sarif', 'json', ...compressedLogExtensions] },
+                openLabel: 'Compare',
+            });
+            if (!uris) return undefined;
+            const [baseline] = await loadLogs(uris); // Not added to the store.
+            return baseline;
+        })();
+        if (!baseline) return;
+
+        // Replaced in place by a log of the same uri, thus results marked fixed still apply.
+        const {text, counts} = compareWithBaseline(log, baseline);
+        const [logCompared] = await loadLogsFromText([{ uri: log._uri, text }]);
+        const index = store.logs.indexOf(log);
+        if (!logCompared || index < 0) return; // Closed in the meantime.
+        store.logs.splice(index, 1, logCompared);
+
+        const {path} = Uri.parse(baseline._uri, true);
+        void window.showInformationMessage(`Compared with '${path.file}': ${counts.new} new, ${counts.unchanged} unchanged, ${counts.updated} updated, ${counts.absent} absent. `
+            + 'Absent results are shown via the Baseline filter.');
+    }));
+}
@@ -0,0 +1,92 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { commands, Disposable, OutputChannel, Uri, window, workspace, WorkspaceEdit } from 'vscode';
+import { findResult, ResultId } from '../shared';
+import '../shared/extension';
+import { addFileEdits, applyEditsToText, FileEdits, getFixEdits, showFixError, writeFileContents } from './fixEdits';
+import { Store } from './store';
+import { UriRebaser } from './uriRebaser';
+
+const scheme = 'sarif-fix';
+
+export function activateFixPreview(disposables: Disposable[], store: Pick<Store, 'analysisInfo' | 'logs' | 'resultsFixed'>, baser: UriRebaser, outputChannel: OutputChannel) {
+    // The fixed content of the file being previewed. Keyed by the `sarif-fix` uri.
+    const previews = new Map<string, string>();
+    let previewCount = 0;
+
+    disposables.push(workspace.registerTextDocumentContentProvider(scheme, {
+        provideTextDocumentContent: uri => previews.get(uri.toString()) ?? '',
+    }));
+
+    // Shows each file of the fix in a diff editor, one at a time, to be accepted or rejected.
+    // The accepted files are then applied together (undoable as one).
+    disposables.push(commands.registerCommand('sarif.previewFix', async (context: { resultId: string }, fixIndex: number) => {
+        const result = findResult(store.logs, JSON.parse(context.resultId) as ResultId);
+        const fix = result?.fixes?.[fixIndex];
+        if (!result || !fix) return;
+
+        let fileEdits: FileEdits[];
+        try {
+            fileEdits = await getFixEdits(fix, result, baser, store);
+        } catch (error) {
+            void showFixError(error, outputChannel);
+            return;
+        }
+        if (!fileEdits.length) {
+            void window.showInformationMessage('None of the files of the fix were found locally.');
+            return;
+        }
+
+        const accepted = [] as FileEdits[];
+        for (const [i, fileEdit] of fileEdits.entries()) {
+            const {uri, doc, edits, create, delete: isDelete, renameTo, content} = fileEdit;
+            // The path is kept so the preview has the same language (and thus highlighting) as the file.
+            const newPreviewUri = (text: string) => {
+                const previewUri = (renameTo ?? uri).with({ scheme, query: `${++previewCount}` });
+                previews.set(previewUri.toString(), text);
+                return previewUri;
+            };
+            const file = uri.path.file;
+            const progress = fileEdits.length > 1 ? ` (${i + 1} of ${fileEdits.length})` : '';
+
+            // Binary content is not diffable.
+            let previewUris = [] as Uri[];
+            if (!content) {
+                const original = create ? newPreviewUri('') : uri;
+                const fixed = newPreviewUri(isDelete ? '' : doc ? applyEditsToText(doc, edits) : edits.map(({newText}) => newText).join(''));
+                previewUris = [original, fixed];
+                const operation = create ? ' (Created)' : isDelete ? ' (Deleted)' : renameTo ? ` → ${renameTo.path.file}` : '';
+                await commands.executeCommand('vscode.diff', original, fixed, `${file}${operation} ↔ Fix${progress}`, { preview: true });
+            }
+            const choice = await window.showInformationMessage(`Apply the fix to ${content ? 'binary file ' : ''}'${file}'${progress}?`, 'Accept', 'Reject');
+
+            if (previewUris.some(previewUri => window.activeTextEditor?.document.uri.toString() === previewUri.toString())) {
+                await commands.executeCommand('workbench.action.closeActiveEditor');
+            }
+            for (const previewUri of previewUris) previews.delete(previewUri.toString());
+
+            if (!choice) return; // Dismissed, thus cancel the remaining files.
+            if (choice === 'Accept') accepted.push(fileEdit);
+        }
+        if (!accepted.length) return;
+
+        // The edits are relative to the previewed content, thus are no longer valid if the file has since changed.
+        const changed = accepted.filter(({doc, version}) => doc && doc.version !== version);
+        if (changed.length) {
+            void window.showErrorMessage(`The fix was not applied. Changed since the preview: ${changed.map(({uri}) => uri.path.file).join(', ')}.`);
+            return;
+        }
+
+        const edit = new WorkspaceEdit();
+        for (const fileEdit of accepted) addFileEdits(edit, fileEdit);
+        if (!await workspace.applyEdit(edit)) return;
+        await writeFileContents(accepted);
+
+        // A partially applied fix does not fix the result.
+        if (accepted.length === fileEdits.length) {
+            store.resultsFixed.push(JSON.stringify(result._id));
+        }
+    }));
+}
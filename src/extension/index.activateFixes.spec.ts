@@ -0,0 +1,68 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { URI as Uri } from 'vscode-uri';
+import { mockVscode } from '../test/mockVscode';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateFixes', () => {
+    let provider: any;
+    let applied: boolean;
+    let written: number;
+    let errors: string[];
+    const { activateFixes } = proxyquire('./index.activateFixes', {
+        'vscode': {
+            ...mockVscode,
+            CodeAction: class {
+                constructor(readonly title: string) {}
+            },
+            CodeActionKind: { Empty: '', QuickFix: 'quickfix' },
+            languages: {
+                registerCodeActionsProvider: (_selector: string, value: any) => provider = value,
+            },
+            workspace: {
+                applyEdit: async () => applied,
+            },
+            WorkspaceEdit: class {},
+        },
+        './fixEdits': {
+            addFileEdits: () => undefined,
+            getFixEdits: async () => [{ uri: Uri.file('/a.c'), create: true, edits: [] }],
+            showFixError: async (error: Error) => { errors.push(error.message); },
+            writeFileContents: async () => { written++; },
+        },
+        './suppressionComments': {},
+    });
+
+    const result = { _id: ['file:///a.sarif', 0, 0] };
+    const codeAction = () => ({ result, fix: { artifactChanges: [] } });
+
+    let store: Store;
+    beforeEach(() => {
+        written = 0;
+        errors = [];
+        store = new Store();
+        activateFixes([], store, {}, {});
+    });
+
+    it('marks the result fixed once the fix is applied', async () => {
+        applied = true;
+        await provider.resolveCodeAction(codeAction());
+        assert.strictEqual(written, 1);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(store.resultsFixed.slice(), [JSON.stringify(result._id)]);
+    });
+
+    it('shows an error, rather than marking the result fixed, if the edit fails to apply', async () => {
+        applied = false; // Such as creating a file that exists.
+        await provider.resolveCodeAction(codeAction());
+        assert.strictEqual(written, 0);
+        assert.deepStrictEqual(errors, ['Failed to apply the fix.']);
+        assert.deepStrictEqual(store.resultsFixed.slice(), []);
+    });
+});
@@ -2,23 +2,19 @@
 // Licensed under the MIT License.
 /* eslint-disable filenames/match-regex */
 
-import { diffChars } from 'diff';
 import { Fix, Result } from 'sarif';
 import { CodeAction, CodeActionKind, Diagnostic, Disposable, languages, OutputChannel, Uri, workspace, WorkspaceEdit } from 'vscode';
-import { parseArtifactLocation } from '../shared';
-import { getOriginalDoc } from './getOriginalDoc';
-import { driftedRegionToSelection } from './regionToSelection';
+import { addFileEdits, getFixEdits, showFixError, writeFileContents } from './fixEdits';
+import { ResultAction } from './index.d';
+import { findSuppressionComment, getSuppressionComments } from './suppressionComments';
 import { ResultDiagnostic } from './resultDiagnostic';
 import { Store } from './store';
 import { UriRebaser } from './uriRebaser';
-import { getInitializedGitApi } from './index.activateGithubAnalyses';
-import * as path from 'path';
-import * as os from 'os';
 
-export function activateFixes(disposables: Disposable[], store: Pick<Store, 'analysisInfo' | 'resultsFixed'>, baser: UriRebaser) {
+export function activateFixes(disposables: Disposable[], store: Pick<Store, 'analysisInfo' | 'resultActions' | 'resultsFixed'>, baser: UriRebaser, outputChannel: OutputChannel) {
     disposables.push(languages.registerCodeActionsProvider('*',
         {
-            provideCodeActions(_doc, _range, context) {
+            provideCodeActions(doc, _range, context) {
                 // Observed values `context`:
                 // context.only          │ context.triggerKind  │ remarks
                 // ──────────────────────┼──────────────────────┼────────
@@ -33,12 +29,18 @@ export function activateFixes(disposables: Disposable[], store: Pick<Store, 'ana
 
                 return [
                     new ResultQuickFix(diagnostic, result), // Mark as fixed
+                    ...findSuppressionComment(getSuppressionComments(), result._run.tool.driver.name, result.ruleId)
+                        ? [new SuppressionCommentCodeAction(diagnostic, result, doc.uri)]
+                        : [],
                     ...result.fixes?.map(fix => new ResultQuickFix(diagnostic, result, fix)) ?? [],
+                    ...result.fixes?.map((fix, i) => new PreviewFixCodeAction(diagnostic, result, fix, i)) ?? [],
                     ...result.properties?.['github/alertNumber'] === undefined ? [] : [ // Assumes only GitHub will use `github/alertNumber`.
                         new  DismissCodeAction(diagnostic, result, 'sarif.alertDismissFalsePositive', 'False Positive'),
                         new  DismissCodeAction(diagnostic, result, 'sarif.alertDismissUsedInTests', 'Used in Tests'),
                         new  DismissCodeAction(diagnostic, result, 'sarif.alertDismissWontFix', 'Won\'t Fix'),
                     ],
+                    ...store.resultActions.map(action => new ResultActionCodeAction(diagnostic, result, action)),
+                    new SuppressCodeAction(diagnostic, result),
                 ];
             },
             async resolveCodeAction(codeAction: ResultQuickFix) {
@@ -47,7 +49,12 @@ export function activateFixes(disposables: Disposable[], store: Pick<Store, 'ana
                 if (command) return undefined; // VS Code will execute the command on our behalf.
 
                 if (fix) {
-                    await applyFix(fix, result, baser, store);
+                    try {
+                        await applyFix(fix, result, baser, store);
+                    } catch (error) {
+                        void showFixError(error, outputChannel);
+                        return codeAction; // Not fixed.
+                    }
                 }
 
                 store.resultsFixed.push(JSON.stringify(result._id));
@@ -69,6 +76,18 @@ class ResultQuickFix extends CodeAction {
     }
 }
 
+class PreviewFixCodeAction extends CodeAction {
+    constructor(diagnostic: Diagnostic, result: Result, fix: Fix, fixIndex: number) {
+        super(`Preview fix: ${fix.description?.text ?? '?'}`, CodeActionKind.QuickFix);
+        this.diagnostics = [diagnostic]; // Note: VSCode does not use this to clear the diagnostic.
+        this.command = {
+            title: '', // Leaving empty as it is seemingly not used (yet required).
+            command: 'sarif.previewFix',
+            arguments: [{ resultId: JSON.stringify(result._id) }, fixIndex],
+        };
+    }
+}
+
 class DismissCodeAction extends CodeAction {
     constructor(diagnostic: Diagnostic, result: Result, command: string, reasonText: string) {
         super(`Dismiss - ${reasonText}`, CodeActionKind.Empty);
@@ -81,53 +100,60 @@ class DismissCodeAction extends CodeAction {
     }
 }
 
+// Registered by other extensions via `Api.registerResultAction`.
+class ResultActionCodeAction extends CodeAction {
+    constructor(diagnostic: Diagnostic, result: Result, action: ResultAction) {
+        super(action.title, CodeActionKind.Empty);
+        this.diagnostics = [diagnostic]; // Note: VSCode does not use this to clear the diagnostic.
+        this.command = {
+            title: '', // Leaving empty as it is seemingly not used (yet required).
+            command: 'sarif.runResultAction',
+            arguments: [{ resultId: JSON.stringify(result._id) }, action.id],
+        };
+    }
+}
+
+class SuppressionCommentCodeAction extends CodeAction {
+    constructor(diagnostic: Diagnostic, result: Result, uri: Uri) {
+        super('Suppress with comment', CodeActionKind.QuickFix);
+        this.diagnostics = [diagnostic]; // Note: VSCode does not use this to clear the diagnostic.
+        this.command = {
+            title: '', // Leaving empty as it is seemingly not used (yet required).
+            command: 'sarif.insertSuppressionComment',
+            arguments: [{ resultId: JSON.stringify(result._id) }, uri, diagnostic.range.start.line], // The range is drift-adjusted.
+        };
+    }
+}
+
+class SuppressCodeAction extends CodeAction {
+    constructor(diagnostic: Diagnostic, result: Result) {
+        super('Suppress result...', CodeActionKind.Empty);
+        this.diagnostics = [diagnostic]; // Note: VSCode does not use this to clear the diagnostic.
+        this.command = {
+            title: '', // Leaving empty as it is seemingly not used (yet required).
+            command: 'sarif.suppressResult',
+            arguments: [{ resultId: JSON.stringify(result._id) }],
+        };
+    }
+}
+
 export async function applyFix(fix: Fix, result: Result, baser: UriRebaser, store: Pick<Store, 'analysisInfo'>, outputChannel?: OutputChannel) {
-    // Some fixes are injected as raw diffs. If so, apply them directly.
+    // Some fixes are injected as raw diffs. If so, they are applied as patches (see `getFixEdits`).
     const diff = fix.properties?.diff;
     if (diff) {
         outputChannel?.appendLine('diff found:');
         outputChannel?.appendLine('--------');
         outputChannel?.appendLine(diff);
         outputChannel?.appendLine('--------');
-        const git = await getInitializedGitApi();
-        if (!git) {
-            throw new Error('Unable to initialize Git API.');
-        }
-        // save diff to a temp file
-        const filePath = path.join(os.tmpdir(), `${(new Date()).getTime()}.patch`);
-        try {
-            await workspace.fs.writeFile(Uri.parse(filePath), Buffer.from(diff, 'utf-8'));
-            // TODO assume exactly one repository, which will usually be the case for codespaces.
-            // All the situations we need to handle right now are single repository.
-            await git?.repositories[0].apply(filePath);
-            outputChannel?.appendLine('diff applied.');
-        } finally {
-            await workspace.fs.delete(Uri.parse(filePath));
-        }
-        return;
+    } else {
+        outputChannel?.appendLine('Edit found.');
     }
-    outputChannel?.appendLine('Edit found.');
     const edit = new WorkspaceEdit();
-    for (const artifactChange of fix.artifactChanges) {
-        const [uri, uriBase] = parseArtifactLocation(result, artifactChange.artifactLocation);
-        const artifactUri = uri;
-        if (!artifactUri) continue;
-
-        const localUri = await baser.translateArtifactToLocal(artifactUri, uriBase);
-        if (!localUri) continue;
-        outputChannel?.appendLine(`Applying fix to ${localUri.toString()}`);
-
-        const currentDoc = await workspace.openTextDocument(localUri);
-        const originalDoc = await getOriginalDoc(store.analysisInfo?.commit_sha, currentDoc);
-        const diffBlocks = originalDoc ? diffChars(originalDoc.getText(), currentDoc.getText()) : [];
-
-        for (const replacement of artifactChange.replacements) {
-            edit.replace(
-                localUri,
-                driftedRegionToSelection(diffBlocks, currentDoc, replacement.deletedRegion, originalDoc),
-                replacement.insertedContent?.text ?? '',
-            );
-        }
+    const fileEdits = await getFixEdits(fix, result, baser, store);
+    for (const fileEdit of fileEdits) {
+        outputChannel?.appendLine(`Applying fix to ${fileEdit.uri.toString()}`);
+        addFileEdits(edit, fileEdit);
     }
-    workspace.applyEdit(edit);
+    if (!await workspace.applyEdit(edit)) throw new Error('Failed to apply the fix.'); // Such as creating a file that exists.
+    await writeFileContents(fileEdits);
 }
@@ -11,7 +11,7 @@ import { authentication, ConfigurationTarget, Disposable, extensions, OutputChan
 import { augmentLog } from '../shared';
 import '../shared/extension';
 import { API, GitExtension, Repository } from './git';
-import { driverlessRules } from './loadLogs';
+import { driverlessRules, getWorkspaceFolderInfos } from './loadLogs';
 import { Panel } from './panel';
 import { isSpinning } from './statusBarItem';
 import { Store } from './store';
@@ -60,9 +60,14 @@ export async function getInitializedGitApi(): Promise<API | undefined> {
 }
 
 // In the case of sub-modules, pick the root repo.
+// In the case of multi-root workspaces, pick the repo of the first workspace folder that is a repo root.
 export function getPrimaryRepository(git: API): Repository | undefined {
-    const primaryWorkspaceFolderUriString = workspace.workspaceFolders?.[0]?.uri.toString(); // No trailing slash
-    return git.repositories.filter(repo => repo.rootUri.toString() === primaryWorkspaceFolderUriString)[0];
+    for (const folder of workspace.workspaceFolders ?? []) {
+        const workspaceFolderUriString = folder.uri.toString(); // No trailing slash
+        const repo = git.repositories.find(repo => repo.rootUri.toString() === workspaceFolderUriString);
+        if (repo) return repo;
+    }
+    return undefined;
 }
 
 //  'off' | 'on' | 'prompt' are valid setting values. 'injected' is used if there is a value for
@@ -130,7 +135,7 @@ export function activateGithubAnalyses(disposables: Disposable[], store: Store,
         outputChannel.appendLine(`Repository name with owner: ${config.user}/${config.repoName}.`);
 
         // process.cwd() returns '/'
-        const workspacePath = workspace.workspaceFolders?.[0]?.uri?.fsPath; // TODO: Multiple workspaces.
+        const workspacePath = repo.rootUri.fsPath; // The primary repo is always a workspace folder.
         if (!workspacePath) {
             outputChannel.appendLine('Not eligible to connect to GitHub Code Scanning: No workspace.');
             return sendGithubEligibility('No workspace');
@@ -329,6 +334,8 @@ export function activateGithubAnalyses(disposables: Disposable[], store: Store,
             if (analysis.commit_sha !== intersectingCommit) return false;
 
             // Some repos have duplicate logs/runs per commit. To mitigate this, we only allow one run/log per tool.
+            // Kept despite `groupDuplicateResults`, as that merge is opt-in and only within the Panel. Whereas the duplicates
+            // of these analyses would also reach the diagnostics and the API (`getResults`).
             if (toolsSeen.has(analysis.tool.name)) return false;
 
             toolsSeen.add(analysis.tool.name);
@@ -483,8 +490,7 @@ function parseLog(logText: string, uri = 'file:///synthetic.sarif') {
     const log = JSON.parse(logText) as Log;
     log._text = logText;
     log._uri = uri;
-    const primaryWorkspaceFolderUriString = workspace.workspaceFolders?.[0]?.uri.toString(true); // No trailing slash
-    augmentLog(log, driverlessRules, primaryWorkspaceFolderUriString);
+    augmentLog(log, driverlessRules, getWorkspaceFolderInfos());
     return log;
 }
 
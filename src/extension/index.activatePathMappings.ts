@@ -0,0 +1,83 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { commands, Disposable, QuickPickItem, window } from 'vscode';
+import { getPathMappingsForUpdate, isValidPathMappingFrom, PathMapping, updatePathMappings } from './pathMappings';
+
+// Returns undefined if the user cancels at any step.
+async function inputPathMapping(mapping?: PathMapping): Promise<PathMapping | undefined> {
+    const from = await window.showInputBox({
+        prompt: 'Path prefix as it appears in the log, or a regular expression starting with ^.',
+        placeHolder: '^/src/(.*)',
+        value: mapping?.from,
+        ignoreFocusOut: true,
+        validateInput: value => isValidPathMappingFrom(value) ? undefined : 'Enter a path prefix or a valid regular expression.',
+    });
+    if (from === undefined) return undefined;
+
+    const to = await window.showInputBox({
+        prompt: 'Local path. May reference groups ($1) and variables (${workspaceFolder}).',
+        placeHolder: '${workspaceFolder}/$1',
+        value: mapping?.to,
+        ignoreFocusOut: true,
+        validateInput: value => value ? undefined : 'Enter a local path.',
+    });
+    if (to === undefined) return undefined;
+
+    const tool = await window.showInputBox({
+        prompt: 'Optional. Only apply to runs of this tool (tool.driver.name).',
+        value: mapping?.tool,
+        ignoreFocusOut: true,
+    });
+    if (tool === undefined) return undefined;
+
+    const log = await window.showInputBox({
+        prompt: 'Optional. Only apply to logs matching this glob.',
+        placeHolder: '**/container-*.sarif',
+        value: mapping?.log,
+        ignoreFocusOut: true,
+    });
+    if (log === undefined) return undefined;
+
+    return {
+        from,
+        to,
+        ...tool ? { tool } : {},
+        ...log ? { log } : {},
+    };
+}
+
+export function activatePathMappings(disposables: Disposable[]) {
+    disposables.push(commands.registerCommand('sarif.managePathMappings', async () => {
+        const mappings = getPathMappingsForUpdate();
+
+        type MappingItem = QuickPickItem & { index?: number };
+        const items: MappingItem[] = [
+            ...mappings.map((mapping, index) => ({
+                label: `${mapping.from} → ${mapping.to}`,
+                description: [mapping.tool, mapping.log].filter(scope => scope).join(' · '),
+                index,
+            })),
+            { label: '$(add) Add Path Mapping...' },
+        ];
+        const item = await window.showQuickPick(items, { placeHolder: 'Select a path mapping to edit or remove.' });
+        if (!item) return;
+
+        if (item.index === undefined) {
+            const mapping = await inputPathMapping();
+            if (!mapping) return;
+            await updatePathMappings([...mappings, mapping]);
+            return;
+        }
+
+        const action = await window.showQuickPick(['Edit...', 'Remove'], { placeHolder: item.label });
+        if (action === 'Edit...') {
+            const mapping = await inputPathMapping(mappings[item.index]);
+            if (!mapping) return;
+            await updatePathMappings(mappings.map((existing, index) => index === item.index ? mapping : existing));
+        } else if (action === 'Remove') {
+            await updatePathMappings(mappings.filter((_, index) => index !== item.index));
+        }
+    }));
+}
@@ -0,0 +1,47 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { Result } from 'sarif';
+import { commands, Disposable, Uri, window } from 'vscode';
+import { findResult, ResultId } from '../shared';
+import { ResultColumn } from './index.d';
+import { Store } from './store';
+
+export function getColumnValue(column: ResultColumn, result: Result): string {
+    const value = (() => {
+        try {
+            return column.provideValue
+                ? column.provideValue(result)
+                : column.propertyPath?.split('.').reduce<unknown>((obj, key) => (obj as Record<string, unknown> | undefined)?.[key], result.properties);
+        } catch (error) {
+            return undefined; // A misbehaving provider should not break the Panel.
+        }
+    })();
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function activateResultContributions(disposables: Disposable[], store: Pick<Store, 'logs' | 'resultActions'>) {
+    // As with the GitHub dismiss commands, `resultId` is wrapped with a `context` object by Webview context menus.
+    // If `actionId` is omitted (such as from the context menu), the user picks the action.
+    disposables.push(commands.registerCommand('sarif.runResultAction', async (context: { resultId: string }, actionId?: string) => {
+        const id = JSON.parse(context.resultId) as ResultId;
+        const result = findResult(store.logs, id);
+        if (!result) return;
+
+        const action = actionId !== undefined
+            ? store.resultActions.find(action => action.id === actionId)
+            : (await window.showQuickPick(
+                store.resultActions.map(action => ({ label: action.title, action })),
+                { placeHolder: 'Select an action.' }))?.action;
+        if (!action) return;
+
+        const [logUri, runIndex, resultIndex] = id;
+        try {
+            await action.run({ logUri: Uri.parse(logUri), runIndex, resultIndex }, result);
+        } catch (error) {
+            void window.showErrorMessage(`'${action.title}' failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }));
+}
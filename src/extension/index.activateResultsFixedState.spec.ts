@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { Disposable } from 'vscode';
+import { augmentLog, getResultFingerprint } from '../shared';
+import '../shared/extension';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateResultsFixedState', () => {
+    const createLog = (uri: string, ...hashes: string[]) => {
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                tool: { driver: { name: 'Tool' } },
+                results: hashes.map(hash => ({ ruleId: 'R1', message: { text: hash }, partialFingerprints: { hash } })),
+            }],
+        } as any as Log;
+        log._uri = uri;
+        augmentLog(log);
+        return log;
+    };
+    const idOf = (log: Log, resultIndex: number) => JSON.stringify(log.runs[0].results![resultIndex]._id);
+    const fingerprintOf = (log: Log, resultIndex: number) => getResultFingerprint(log.runs[0].results![resultIndex]);
+
+    const commands = {} as Record<string, () => void>;
+    const { activateResultsFixedState } = proxyquire('./index.activateResultsFixedState', {
+        'vscode': {
+            commands: {
+                registerCommand: (name: string, callback: () => void) => {
+                    commands[name] = callback;
+                    return { dispose: () => undefined };
+                },
+            },
+        },
+    });
+
+    // Each activation (with its own store) is as per a reload of the window, with the workspace state kept.
+    let workspaceState: { get: (key: string, defaultValue?: unknown) => unknown, update: (key: string, value: unknown) => Promise<void> };
+    let disposables: Disposable[];
+    const activate = () => {
+        disposables.forEach(disposable => disposable.dispose());
+        disposables = [];
+        const store = new Store();
+        activateResultsFixedState(disposables, store, workspaceState);
+        return store;
+    };
+    beforeEach(() => {
+        const state = new Map<string, unknown>();
+        workspaceState = {
+            get: (key, defaultValue) => state.has(key) ? state.get(key) : defaultValue,
+            update: async (key, value) => { state.set(key, value); },
+        };
+        disposables = [];
+    });
+    afterEach(() => disposables.forEach(disposable => disposable.dispose()));
+
+    it('restores results marked fixed across reloads', () => {
+        let store = activate();
+        const log = createLog('file:///a.sarif', '1', '2', '3');
+        store.logs.push(log);
+        store.resultsFixed.push(idOf(log, 0), idOf(log, 2));
+        assert.deepStrictEqual(workspaceState.get('resultsFixed'), [fingerprintOf(log, 0), fingerprintOf(log, 2)]);
+
+        store = activate();
+        const logReloaded = createLog('file:///a.sarif', '1', '2', '3');
+        store.logs.push(logReloaded);
+        assert.deepStrictEqual([...store.resultsFixed], [idOf(logReloaded, 0), idOf(logReloaded, 2)]);
+    });
+
+    it('matches results by fingerprint, such as in a regenerated log', () => {
+        let store = activate();
+        const log = createLog('file:///a.sarif', '1', '2');
+        store.logs.push(log);
+        store.resultsFixed.push(idOf(log, 1));
+
+        store = activate();
+        const logRegenerated = createLog('file:///b.sarif', '0', '2'); // Moved, and with another result.
+        store.logs.push(logRegenerated);
+        assert.deepStrictEqual([...store.resultsFixed], [idOf(logRegenerated, 1)]);
+    });
+
+    it('forgets results unmarked by the user, but not those of closed logs', () => {
+        let store = activate();
+        const log = createLog('file:///a.sarif', '1', '2');
+        store.logs.push(log);
+        store.resultsFixed.push(idOf(log, 0), idOf(log, 1));
+        store.resultsFixed.remove(idOf(log, 0));
+        assert.deepStrictEqual(workspaceState.get('resultsFixed'), [fingerprintOf(log, 1)]);
+
+        store.logs.splice(0); // The ids of the closed log are then removed, as if by the Panel.
+        store.resultsFixed.splice(0);
+        assert.deepStrictEqual(workspaceState.get('resultsFixed'), [fingerprintOf(log, 1)]);
+
+        store = activate();
+        const logReloaded = createLog('file:///a.sarif', '1', '2');
+        store.logs.push(logReloaded);
+        assert.deepStrictEqual([...store.resultsFixed], [idOf(logReloaded, 1)]);
+    });
+
+    it('resets', () => {
+        let store = activate();
+        const log = createLog('file:///a.sarif', '1');
+        store.logs.push(log);
+        store.resultsFixed.push(idOf(log, 0));
+        commands['sarif.resetResultsFixed']();
+        assert.deepStrictEqual([...store.resultsFixed], []);
+        assert.deepStrictEqual(workspaceState.get('resultsFixed'), []);
+
+        store = activate();
+        store.logs.push(createLog('file:///a.sarif', '1'));
+        assert.deepStrictEqual([...store.resultsFixed], []);
+    });
+});
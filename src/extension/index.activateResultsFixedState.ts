@@ -0,0 +1,52 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { IArraySplice, observe } from 'mobx';
+import { Log } from 'sarif';
+import { commands, Disposable, Memento } from 'vscode';
+import { findResult, getResultFingerprint, ResultId } from '../shared';
+import '../shared/extension';
+import { Store } from './store';
+
+const resultsFixedStateKey = 'resultsFixed'; // Fingerprints (see `getResultFingerprint`).
+
+// Results marked fixed are remembered per workspace, and marked fixed again whenever a matching result is loaded,
+// such as from a regenerated log or after a reload of the window.
+export function activateResultsFixedState(disposables: Disposable[], store: Pick<Store, 'logs' | 'resultsFixed'>, workspaceState: Memento) {
+    const fingerprints = new Set(workspaceState.get<string[]>(resultsFixedStateKey, []));
+    const save = () => void workspaceState.update(resultsFixedStateKey, [...fingerprints]);
+
+    disposables.push({ dispose: observe(store.logs, change => {
+        const {added} = change as unknown as IArraySplice<Log>;
+        const ids = added
+            .map(log => log.runs).flat()
+            .map(run => run.results ?? []).flat()
+            .filter(result => fingerprints.has(getResultFingerprint(result)))
+            .map(result => JSON.stringify(result._id))
+            .filter(id => !store.resultsFixed.includes(id));
+        if (ids.length) store.resultsFixed.push(...ids);
+    }) });
+
+    disposables.push({ dispose: observe(store.resultsFixed, change => {
+        const {added, removed} = change as unknown as IArraySplice<string>;
+        const findFingerprint = (id: string) => {
+            const result = findResult(store.logs, JSON.parse(id) as ResultId);
+            return result && getResultFingerprint(result);
+        };
+        for (const fingerprint of added.map(findFingerprint)) {
+            if (fingerprint) fingerprints.add(fingerprint);
+        }
+        // Ids of closed (or reloading) logs are no longer found. Only those of open logs were unmarked by the user.
+        for (const fingerprint of removed.map(findFingerprint)) {
+            if (fingerprint) fingerprints.delete(fingerprint);
+        }
+        save();
+    }) });
+
+    disposables.push(commands.registerCommand('sarif.resetResultsFixed', () => {
+        store.resultsFixed.splice(0);
+        fingerprints.clear();
+        save();
+    }));
+}
@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { URI as Uri } from 'vscode-uri';
+import { augmentLog } from '../shared';
+import '../shared/extension';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateSuppressions', () => {
+    const uri = Uri.file('/a.sarif');
+    const text = `\uFEFF${JSON.stringify({ version: '2.1.0', runs: [{ tool: { driver: { name: 'Tool' } }, results: [{ ruleId: 'R1', message: { text: 'Message' } }] }] })}`;
+
+    let files: Map<string, string>; // Keyed by fsPath.
+    let errors: string[];
+    const commands = {} as Record<string, (...args: any[]) => Promise<void>>;
+    const { activateSuppressions } = proxyquire('./index.activateSuppressions', {
+        'fs': {
+            promises: {
+                readFile: async (fsPath: string) => files.get(fsPath),
+                writeFile: async (fsPath: string, text: string) => { files.set(fsPath, text); },
+            },
+        },
+        'vscode': {
+            '@global': true,
+            commands: { registerCommand: (name: string, callback: any) => commands[name] = callback },
+            Uri,
+            window: {
+                showErrorMessage: async (message: string) => { errors.push(message); },
+                showInputBox: async () => ' Test code. ',
+                showQuickPick: async (items: any[]) => items[0], // External, then accepted.
+            },
+        },
+    });
+
+    let store: Store;
+    beforeEach(() => {
+        files = new Map([[uri.fsPath, text]]);
+        errors = [];
+        store = new Store();
+        activateSuppressions([], store, { setSuppressions: async () => undefined });
+    });
+
+    const openLog = (augment: Partial<Log> = {}) => {
+        const log = JSON.parse(text.slice(1)) as Log;
+        log._uri = uri.toString();
+        Object.assign(log, augment);
+        augmentLog(log);
+        store.logs.push(log);
+        return JSON.stringify(log.runs[0].results![0]._id);
+    };
+
+    it('adds the suppression to the log file', async () => {
+        await commands['sarif.suppressResult']({ resultId: openLog() });
+        assert.deepStrictEqual(errors, []);
+        const textSuppressed = files.get(uri.fsPath)!;
+        assert.strictEqual(textSuppressed[0], '\uFEFF'); // Kept.
+        assert.deepStrictEqual(JSON.parse(textSuppressed.slice(1)).runs[0].results[0].suppressions, [
+            { kind: 'external', status: 'accepted', justification: 'Test code.' },
+        ]);
+    });
+
+    it('does not write to the files of upgraded, archived or in-memory logs', async () => {
+        const augments: Partial<Log>[] = [
+            { _uriUpgraded: Uri.file('/tmp/upgraded.sarif').toString() },
+            { _uri: 'file:///a.sarif.zip!/a.sarif', _text: text.slice(1) },
+            { _uri: 'sarif-memory:/1/a.sarif', _text: text.slice(1) },
+        ];
+        for (const augment of augments) {
+            store.logs.splice(0);
+            await commands['sarif.suppressResult']({ resultId: openLog(augment) });
+        }
+        assert.strictEqual(files.get(uri.fsPath), text);
+        assert.strictEqual(errors.length, 3);
+    });
+});
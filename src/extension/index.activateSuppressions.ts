@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { promises } from 'fs';
+import { Suppression } from 'sarif';
+import { commands, Disposable, EndOfLine, Position, QuickPickItem, Uri, window, workspace, WorkspaceEdit } from 'vscode';
+import { augmentSuppression, decodeFileUri, findResult, isLogFileAsLoaded, ResultId } from '../shared';
+import { Panel } from './panel';
+import { Store } from './store';
+import { findSuppressionComment, formatSuppressionComment, getSuppressionComments, suppressionCommentsConfigSection } from './suppressionComments';
+import { appendSuppression } from './suppressLog';
+
+export function activateSuppressions(disposables: Disposable[], store: Pick<Store, 'logs'>, panel: Pick<Panel, 'setSuppressions'>) {
+    // Unfortunately, `resultId` is wrapped with a `context` object as a result of how VS Code Webview context menus work.
+    disposables.push(commands.registerCommand('sarif.suppressResult', async (context: { resultId: string }) => {
+        const id = JSON.parse(context.resultId) as ResultId;
+        const [, runIndex, resultIndex] = id;
+        const result = findResult(store.logs, id);
+        if (!result) return;
+
+        const log = result._log;
+        const uri = Uri.parse(log._uri, true);
+        if (!isLogFileAsLoaded(log)) {
+            void window.showErrorMessage(`Suppressions can only be written to SARIF 2.1.0 log files. '${decodeFileUri(log._uri)}' is not.`);
+            return;
+        }
+
+        type Item<T> = QuickPickItem & { value: T };
+        const kind = await window.showQuickPick<Item<Suppression.kind>>([
+            { label: 'External', description: 'Suppressed outside of the source, such as by this log.', value: 'external' },
+            { label: 'In Source', description: 'Suppressed within the source, such as by a comment.', value: 'inSource' },
+        ], { placeHolder: 'Kind of suppression' });
+        if (!kind) return;
+
+        const status = await window.showQuickPick<Item<Suppression.status>>([
+            { label: 'Accepted', value: 'accepted' },
+            { label: 'Under Review', value: 'underReview' },
+            { label: 'Rejected', description: 'The result is not suppressed.', value: 'rejected' },
+        ], { placeHolder: 'Status of suppression' });
+        if (!status) return;
+
+        const justification = await window.showInputBox({
+            prompt: 'Justification (optional)',
+            ignoreFocusOut: true,
+        });
+        if (justification === undefined) return;
+
+        const suppression: Suppression = {
+            kind: kind.value,
+            status: status.value,
+            ...justification.trim() && { justification: justification.trim() },
+        };
+        try {
+            const text = await promises.readFile(uri.fsPath, 'utf8');
+            const bom = text.startsWith('\uFEFF') ? '\uFEFF' : '';
+            await promises.writeFile(uri.fsPath, bom + appendSuppression(text.slice(bom.length), runIndex, resultIndex, suppression), 'utf8');
+            // The `LogWatcher` then reloads the log, showing the suppression.
+        } catch (error) {
+            void window.showErrorMessage(`Failed to suppress the result in '${uri.fsPath}'. ${error.message ?? error}`);
+        }
+    }));
+
+    // Inserts a comment (see `sarif-viewer.suppressionComments`) above the (drift-adjusted) line of the result.
+    disposables.push(commands.registerCommand('sarif.insertSuppressionComment', async (context: { resultId: string }, uri: Uri, line: number) => {
+        const result = findResult(store.logs, JSON.parse(context.resultId) as ResultId);
+        if (!result) return;
+
+        const toolName = result._run.tool.driver.name;
+        const comment = findSuppressionComment(getSuppressionComments(), toolName, result.ruleId);
+        if (!comment) {
+            void window.showErrorMessage(`No suppression comment is configured for '${toolName}' rule '${result.ruleId}'. See setting 'sarif-viewer.${suppressionCommentsConfigSection}'.`);
+            return;
+        }
+
+        const justification = comment.template.includes('${justification}')
+            ? await window.showInputBox({ prompt: 'Justification (optional)', ignoreFocusOut: true })
+            : '';
+        if (justification === undefined) return;
+
+        const doc = await workspace.openTextDocument(uri);
+        const {text, firstNonWhitespaceCharacterIndex} = doc.lineAt(line);
+        const indent = text.slice(0, firstNonWhitespaceCharacterIndex);
+        const eol = doc.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+        const edit = new WorkspaceEdit();
+        edit.insert(uri, new Position(line, 0), `${indent}${formatSuppressionComment(comment.template, result.ruleId, justification.trim())}${eol}`);
+        if (!await workspace.applyEdit(edit)) return;
+
+        // Shown as suppressed until the log is regenerated (which would then include the suppression).
+        result.suppressions = [
+            ...result.suppressions ?? [],
+            { kind: 'inSource', ...justification.trim() && { justification: justification.trim() } },
+        ];
+        augmentSuppression(result);
+        await panel.setSuppressions(result);
+    }));
+}
@@ -0,0 +1,146 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { Disposable } from 'vscode';
+import { URI as Uri } from 'vscode-uri';
+import { augmentLog, getResultFingerprint, Triage } from '../shared';
+import '../shared/extension';
+import { mockVscode } from '../test/mockVscode';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateTriage', () => {
+    const folders = ['/a', '/b'].map((path, index) => ({ uri: Uri.file(path), name: path.file, index }));
+    const createLog = (uri: string, hash: string) => {
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                tool: { driver: { name: 'Tool' } },
+                results: [{ ruleId: 'R1', message: { text: hash }, partialFingerprints: { hash } }],
+            }],
+        } as any as Log;
+        log._uri = uri;
+        augmentLog(log);
+        return log;
+    };
+    const fingerprintOf = (log: Log) => getResultFingerprint(log.runs[0].results![0]);
+    const triageFile = (results: Record<string, Triage>) => `${JSON.stringify({ version: 1, results }, null, '    ')}\n`;
+
+    let files: Map<string, string>; // Keyed by path.
+    let writeError: Error | undefined;
+    let errors: string[];
+    let watchers: Record<string, Record<string, () => void>>; // Keyed by folder path.
+    const { activateTriage } = proxyquire('./index.activateTriage', {
+        'vscode': {
+            ...mockVscode,
+            Disposable: class {
+                constructor(readonly dispose: () => void) {}
+            },
+            RelativePattern: class {
+                constructor(readonly base: { uri: Uri }, readonly pattern: string) {}
+            },
+            window: {
+                showErrorMessage: async (message: string) => { errors.push(message); },
+            },
+            workspace: {
+                workspaceFolders: folders,
+                onDidChangeWorkspaceFolders: () => ({ dispose: () => undefined }),
+                createFileSystemWatcher: ({ base }: { base: { uri: Uri } }) => {
+                    const handlers = watchers[base.uri.path] = {} as Record<string, () => void>;
+                    return {
+                        onDidCreate: (handler: () => void) => handlers.create = handler,
+                        onDidChange: (handler: () => void) => handlers.change = handler,
+                        onDidDelete: (handler: () => void) => handlers.delete = handler,
+                        dispose: () => undefined,
+                    };
+                },
+                fs: {
+                    createDirectory: async () => undefined,
+                    readFile: async (uri: Uri) => {
+                        const text = files.get(uri.path);
+                        if (text === undefined) throw new Error('File not found.');
+                        return Buffer.from(text, 'utf8');
+                    },
+                    writeFile: async (uri: Uri, content: Uint8Array) => {
+                        if (writeError) throw writeError;
+                        files.set(uri.path, Buffer.from(content).toString('utf8'));
+                    },
+                },
+            },
+        },
+    });
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    let store: Store;
+    let disposables: Disposable[];
+    beforeEach(() => {
+        files = new Map();
+        writeError = undefined;
+        errors = [];
+        watchers = {};
+        store = new Store();
+        disposables = [];
+    });
+    afterEach(() => disposables.forEach(disposable => disposable.dispose()));
+
+    it('loads the triage of each workspace folder', async () => {
+        files.set('/a/.sarif/triage.json', triageFile({ '1': { state: 'confirmed' } }));
+        files.set('/b/.sarif/triage.json', triageFile({ '2': { state: 'won\'t fix', note: 'Test only.' } }));
+        activateTriage(disposables, store);
+        await delay(0);
+        assert.deepStrictEqual(store.triage, { '1': { state: 'confirmed' }, '2': { state: 'won\'t fix', note: 'Test only.' } });
+
+        files.set('/b/.sarif/triage.json', triageFile({ '2': { state: 'confirmed' } })); // Such as from a pull.
+        watchers['/b'].change();
+        await delay(0);
+        assert.deepStrictEqual(store.triage, { '1': { state: 'confirmed' }, '2': { state: 'confirmed' } });
+
+        files.delete('/a/.sarif/triage.json');
+        watchers['/a'].delete();
+        assert.deepStrictEqual(store.triage, { '2': { state: 'confirmed' } });
+    });
+
+    it('saves to the file that holds the result, else that of the folder of its log', async () => {
+        files.set('/b/.sarif/triage.json', triageFile({ '2': { state: 'confirmed' } }));
+        activateTriage(disposables, store);
+        await delay(0);
+
+        const logB = createLog(Uri.file('/b/.sarif/b.sarif').toString(), 'b');
+        const logElsewhere = createLog(Uri.file('/elsewhere.sarif').toString(), 'x');
+        store.logs.push(logB, logElsewhere);
+        store.triage = {
+            ...store.triage,
+            '2': { state: 'false positive' },
+            [fingerprintOf(logB)]: { state: 'confirmed' },
+            [fingerprintOf(logElsewhere)]: { state: 'needs investigation', assignee: 'someone' },
+        };
+        await delay(0);
+        assert.strictEqual(files.get('/a/.sarif/triage.json'), triageFile({ [fingerprintOf(logElsewhere)]: { state: 'needs investigation', assignee: 'someone' } }));
+        assert.strictEqual(files.get('/b/.sarif/triage.json'), triageFile({ '2': { state: 'false positive' }, [fingerprintOf(logB)]: { state: 'confirmed' } }));
+    });
+
+    it('does not write back what was just read', async () => {
+        const text = triageFile({ '1': { state: 'confirmed' } });
+        files.set('/a/.sarif/triage.json', text);
+        activateTriage(disposables, store);
+        writeError = new Error('Not expected to write.');
+        await delay(0);
+        assert.deepStrictEqual(errors, []);
+        assert.strictEqual(files.has('/b/.sarif/triage.json'), false); // Nor create files of other folders.
+    });
+
+    it('shows an error if saving fails', async () => {
+        activateTriage(disposables, store);
+        await delay(0);
+        writeError = new Error('Read-only file system.');
+        store.triage = { '1': { state: 'confirmed' } };
+        await delay(0);
+        assert.deepStrictEqual(errors, [`Failed to save triage to '${Uri.file('/a/.sarif/triage.json').fsPath}'. Read-only file system.`]);
+    });
+});
@@ -0,0 +1,107 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { reaction } from 'mobx';
+import { Disposable, RelativePattern, Uri, window, workspace, WorkspaceFolder } from 'vscode';
+import { getResultFingerprint, Triage } from '../shared';
+import '../shared/extension';
+import { Store } from './store';
+
+interface TriageFile {
+    version: 1;
+    results: Record<string, Triage>; // Keyed by fingerprint.
+}
+
+// Sorted, thus stable for source control.
+function serializeTriage(triage: Record<string, Triage>): string {
+    const results = Object.fromEntries(Object.entries(triage).sortBy(([fingerprint]) => fingerprint));
+    return `${JSON.stringify({ version: 1, results } as TriageFile, null, '    ')}\n`;
+}
+
+function parseTriage(text: string): Record<string, Triage> {
+    const file = JSON.parse(text) as Partial<TriageFile>;
+    return file.results ?? {};
+}
+
+// Triage is stored in `.sarif/triage.json` of each workspace folder, intended to be committed. A result is triaged in
+// the file that already holds it, else in that of the folder of its log (else the first folder).
+// Changes to the files (such as from a pull) are reflected in the Panel.
+export function activateTriage(disposables: Disposable[], store: Pick<Store, 'logs' | 'triage'>) {
+    interface TriageFolder {
+        folder: WorkspaceFolder;
+        fileUri: Uri;
+        watcher: Disposable;
+        triage: Record<string, Triage>; // As last read or written.
+        textLast: string; // As last read or written. Avoids writing back what was just read.
+    }
+    let folders = [] as TriageFolder[];
+
+    // Earlier folders take precedence, though a fingerprint is not expected in more than one file.
+    const merge = () => store.triage = Object.assign({}, ...[...folders].reverse().map(({triage}) => triage));
+
+    const read = async (triageFolder: TriageFolder) => {
+        try {
+            const text = Buffer.from(await workspace.fs.readFile(triageFolder.fileUri)).toString('utf8');
+            if (text === triageFolder.textLast) return;
+            triageFolder.textLast = text;
+            triageFolder.triage = parseTriage(text);
+            merge();
+        } catch (error) {
+            // File absent or malformed. Keep the current triage, which is written on the next change.
+        }
+    };
+
+    const findLogFolder = (fingerprint: string) => {
+        const log = store.logs.find(log => log.runs.some(run => run.results?.some(result => getResultFingerprint(result) === fingerprint)));
+        return log && folders.find(({folder}) => log._uri.startsWith(`${folder.uri.toString()}/`));
+    };
+
+    disposables.push({ dispose: reaction(() => store.triage, async triage => {
+        if (!folders.length) return; // Triage is then only kept in memory.
+        const portions = new Map(folders.map(triageFolder => [triageFolder, {} as Record<string, Triage>]));
+        for (const [fingerprint, value] of Object.entries(triage)) {
+            const triageFolder = folders.find(({triage}) => fingerprint in triage) ?? findLogFolder(fingerprint) ?? folders[0];
+            portions.get(triageFolder)![fingerprint] = value;
+        }
+        for (const [triageFolder, portion] of portions) {
+            triageFolder.triage = portion;
+            const text = serializeTriage(portion);
+            if (text === triageFolder.textLast) continue;
+            if (!triageFolder.textLast && !Object.keys(portion).length) continue; // Not worth creating the file.
+            triageFolder.textLast = text;
+            try {
+                await workspace.fs.createDirectory(Uri.joinPath(triageFolder.folder.uri, '.sarif'));
+                await workspace.fs.writeFile(triageFolder.fileUri, Buffer.from(text, 'utf8'));
+            } catch (error) {
+                void window.showErrorMessage(`Failed to save triage to '${triageFolder.fileUri.fsPath}'. ${error instanceof Error ? error.message : ''}`);
+            }
+        }
+    }) });
+
+    const createTriageFolder = (folder: WorkspaceFolder): TriageFolder => {
+        const watcher = workspace.createFileSystemWatcher(new RelativePattern(folder, '.sarif/triage.json'));
+        const triageFolder = { folder, fileUri: Uri.joinPath(folder.uri, '.sarif', 'triage.json'), watcher, triage: {}, textLast: '' };
+        watcher.onDidCreate(() => read(triageFolder));
+        watcher.onDidChange(() => read(triageFolder));
+        watcher.onDidDelete(() => {
+            triageFolder.textLast = '';
+            triageFolder.triage = {};
+            merge();
+        });
+        void read(triageFolder);
+        return triageFolder;
+    };
+
+    const watch = () => {
+        const existing = new Map(folders.map(triageFolder => [triageFolder.folder.uri.toString(), triageFolder]));
+        folders = (workspace.workspaceFolders ?? []).map(folder => existing.get(folder.uri.toString()) ?? createTriageFolder(folder));
+        const removed = [...existing.values()].filter(triageFolder => !folders.includes(triageFolder));
+        removed.forEach(({watcher}) => watcher.dispose());
+        if (removed.length) merge();
+    };
+    watch();
+
+    disposables.push(workspace.onDidChangeWorkspaceFolders(watch));
+    disposables.push(new Disposable(() => folders.forEach(({watcher}) => watcher.dispose())));
+}
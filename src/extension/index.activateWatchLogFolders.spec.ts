@@ -0,0 +1,136 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { observable } from 'mobx';
+import { Log } from 'sarif';
+import { Disposable } from 'vscode';
+import { URI as Uri } from 'vscode-uri';
+import '../shared/extension';
+import { mockVscode } from '../test/mockVscode';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('activateWatchLogFolders', () => {
+    const folder = { uri: Uri.file('/folder'), name: 'folder', index: 0 };
+    const uri = Uri.file('/folder/.sarif/a.sarif');
+    const createLog = (uri: Uri) => ({
+        _uri: uri.toString(),
+        runs: [{ results: [{}] }],
+    } as unknown as Log);
+
+    let loaded = [] as string[];
+    let loadError = undefined as Error | undefined;
+    let errors = [] as string[];
+    let watchers = [] as { pattern: string, handlers: Record<string, (uri: Uri) => void>, disposed: boolean }[];
+    const { activateWatchLogFolders } = proxyquire('./index.activateWatchLogFolders', {
+        'vscode': {
+            ...mockVscode,
+            Disposable: class {
+                constructor(readonly dispose: () => void) {}
+            },
+            RelativePattern: class {
+                constructor(readonly base: { uri: Uri }, readonly pattern: string) {}
+            },
+            window: {
+                showErrorMessage: async (message: string) => { errors.push(message); },
+            },
+            workspace: {
+                ...mockVscode.workspace,
+                workspaceFolders: [folder],
+                onDidChangeConfiguration: () => ({ dispose: () => undefined }),
+                onDidChangeWorkspaceFolders: () => ({ dispose: () => undefined }),
+                getConfiguration: () => ({ get: (_section: string, defaultValue?: unknown) => defaultValue }),
+                createFileSystemWatcher: ({ base, pattern }: { base: { uri: Uri }, pattern: string }) => {
+                    const watcher = { pattern: `${base.uri.path}/${pattern}`, handlers: {} as Record<string, (uri: Uri) => void>, disposed: false };
+                    watchers.push(watcher);
+                    return {
+                        onDidCreate: (handler: (uri: Uri) => void) => watcher.handlers.create = handler,
+                        onDidChange: (handler: (uri: Uri) => void) => watcher.handlers.change = handler,
+                        onDidDelete: (handler: (uri: Uri) => void) => watcher.handlers.delete = handler,
+                        dispose: () => watcher.disposed = true,
+                    };
+                },
+            },
+        },
+        './loadLogs': {
+            isLogFromFile: (log: Log, fileUri: string) => log._uri === fileUri,
+            loadLogs: async (uris: Uri[]) => {
+                if (loadError) throw loadError;
+                loaded.push(...uris.map(uri => uri.path));
+                return uris.map(uri => createLog(uri));
+            },
+        },
+    });
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    let store: { logs: Log[], results: unknown[] };
+    let panelShowCount = 0;
+    let disposables: Disposable[];
+    beforeEach(() => {
+        loaded = [];
+        loadError = undefined;
+        errors = [];
+        watchers = [];
+        panelShowCount = 0;
+        disposables = [];
+        store = observable({ logs: [] as Log[], results: [] }, { logs: observable.shallow });
+        activateWatchLogFolders(disposables, store, { show: async () => { panelShowCount++; } }, 5);
+    });
+    afterEach(() => disposables.forEach(disposable => disposable.dispose()));
+
+    it('watches the log globs of each workspace folder', () => {
+        assert.deepStrictEqual(watchers.map(({ pattern }) => pattern), ['/folder/.sarif/**/*.sarif']);
+    });
+
+    it('opens created logs once their writes settle', async () => {
+        const [{ handlers }] = watchers;
+        handlers.create(uri);
+        handlers.change(uri);
+        handlers.change(uri);
+        assert.deepStrictEqual(loaded, []);
+
+        await delay(20);
+        assert.deepStrictEqual(loaded, [uri.path]);
+        assert.deepStrictEqual(store.logs.map(log => log._uri), [uri.toString()]);
+        assert.strictEqual(panelShowCount, 1);
+
+        handlers.change(uri); // Already open, thus left to the `LogWatcher`.
+        await delay(20);
+        assert.deepStrictEqual(loaded, [uri.path]);
+    });
+
+    it('closes deleted logs, and cancels pending opens', async () => {
+        const [{ handlers }] = watchers;
+        store.logs.push(createLog(Uri.file('/folder/.sarif/b.sarif')));
+        handlers.create(uri);
+        handlers.delete(uri);
+        handlers.delete(Uri.file('/folder/.sarif/b.sarif'));
+
+        await delay(20);
+        assert.deepStrictEqual(loaded, []);
+        assert.deepStrictEqual(store.logs, []);
+    });
+
+    it('shows an error if a log fails to open', async () => {
+        loadError = new Error('Out of memory.');
+        watchers[0].handlers.create(uri);
+
+        await delay(20);
+        assert.deepStrictEqual(store.logs, []);
+        assert.deepStrictEqual(errors, [`Failed to open '${uri.fsPath}'. Out of memory.`]);
+    });
+
+    it('stops watching once disposed', async () => {
+        watchers[0].handlers.create(uri);
+        disposables.forEach(disposable => disposable.dispose());
+        disposables = [];
+
+        await delay(20);
+        assert.strictEqual(watchers[0].disposed, true);
+        assert.deepStrictEqual(loaded, []);
+    });
+});
@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+/* eslint-disable filenames/match-regex */
+
+import { Disposable, RelativePattern, Uri, window, workspace } from 'vscode';
+import '../shared/extension';
+import { isLogFromFile, loadLogs } from './loadLogs';
+import { Panel } from './panel';
+import { Store } from './store';
+
+const watchedLogGlobsConfigSection = 'watchedLogGlobs';
+const openWhenNewResultsConfigSection = 'explorer.openWhenNewResults';
+
+// Relative to each workspace folder.
+function getWatchedLogGlobs() {
+    return workspace.getConfiguration('sarif-viewer').get<string[]>(watchedLogGlobsConfigSection) ?? ['.sarif/**/*.sarif'];
+}
+
+// By convention, logs in the `./.sarif` folder of each workspace folder are opened at startup.
+export async function findWatchedLogs(): Promise<Uri[]> {
+    const globs = getWatchedLogGlobs();
+    const uris = await Promise.all((workspace.workspaceFolders ?? [])
+        .map(folder => globs.map(glob => workspace.findFiles(new RelativePattern(folder, glob))))
+        .flat());
+    return [...new Map(uris.flat().map(uri => [uri.toString(), uri])).values()]; // Globs may overlap.
+}
+
+// Logs created (or deleted) after startup are opened (or closed) as they appear.
+// Changes to logs that are already open are handled by the `LogWatcher`.
+export function activateWatchLogFolders(disposables: Disposable[], store: Pick<Store, 'logs' | 'results'>, panel: Pick<Panel, 'show'>, delay = 500) {
+    const timers = new Map<string, NodeJS.Timeout>();
+
+    // Tools commonly create the file and then write to it. Wait for the writes to settle before loading.
+    const add = (uri: Uri) => {
+        const key = uri.toString();
+        const timer = timers.get(key);
+        if (timer) clearTimeout(timer);
+        timers.set(key, setTimeout(async () => {
+            timers.delete(key);
+            try {
+                if (store.logs.some(log => isLogFromFile(log, key))) return;
+                const logs = await loadLogs([uri]);
+                if (store.logs.some(log => isLogFromFile(log, key))) return; // Added during the load.
+                store.logs.push(...logs);
+                const hasResults = logs.some(log => log.runs.some(run => run.results?.length));
+                if (hasResults && workspace.getConfiguration('sarif-viewer').get<boolean>(openWhenNewResultsConfigSection, true)) {
+                    void panel.show();
+                }
+            } catch (error) {
+                void window.showErrorMessage(`Failed to open '${uri.fsPath}'. ${error instanceof Error ? error.message : ''}`);
+            }
+        }, delay));
+    };
+
+    const remove = (uri: Uri) => {
+        const key = uri.toString();
+        const timer = timers.get(key);
+        if (timer) clearTimeout(timer);
+        timers.delete(key);
+        store.logs.removeAll(log => isLogFromFile(log, key));
+    };
+
+    let watchers = [] as Disposable[];
+    const watch = () => {
+        watchers.forEach(watcher => watcher.dispose());
+        watchers = (workspace.workspaceFolders ?? []).map(folder => getWatchedLogGlobs().map(glob => {
+            const watcher = workspace.createFileSystemWatcher(new RelativePattern(folder, glob));
+            watcher.onDidCreate(add);
+            watcher.onDidChange(add); // Such as a log that was empty (thus failed to load) when created.
+            watcher.onDidDelete(remove);
+            return watcher;
+        })).flat();
+    };
+    watch();
+
+    disposables.push(workspace.onDidChangeWorkspaceFolders(watch));
+    disposables.push(workspace.onDidChangeConfiguration(event => {
+        if (!event.affectsConfiguration(`sarif-viewer.${watchedLogGlobsConfigSection}`)) return;
+        watch();
+    }));
+    disposables.push(new Disposable(() => {
+        watchers.forEach(watcher => watcher.dispose());
+        timers.forEach(clearTimeout);
+    }));
+}
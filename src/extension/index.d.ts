@@ -1,7 +1,77 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
-import { CancellationToken, Uri } from 'vscode';
+import { Log, Result } from 'sarif';
+import { CancellationToken, Disposable, Event, Uri } from 'vscode';
+
+/** Identifies a result. The same as the arguments of `selectByIndex`. */
+export interface ResultReference {
+    logUri: Uri;
+    runIndex: number;
+    resultIndex: number;
+}
+
+export interface LogsChangeEvent {
+    added: Uri[];
+    removed: Uri[];
+}
+
+export interface ResultsFixedChangeEvent {
+    added: ResultReference[];
+    removed: ResultReference[];
+}
+
+/**
+ * Filters behave like those of the SARIF Results Panel. Omitted members do not filter.
+ * Results marked fixed are excluded (whereas the Panel shows them struck through).
+ */
+export interface ResultFilter {
+    levels?: ('error' | 'warning' | 'note' | 'none')[];
+    baselineStates?: ('new' | 'unchanged' | 'updated' | 'absent')[];
+    suppressions?: ('not suppressed' | 'suppressed')[];
+    /** Space-separated. A result matches if any keyword is found within its line, file, message, baseline, suppression or rule. */
+    keywords?: string;
+    /** Only results located (after resolving to a local uri) within this file. */
+    uri?: Uri;
+}
+
+/** A plain (serializable) summary of a result. */
+export interface ResultSummary {
+    id: { logUri: string, runIndex: number, resultIndex: number };
+    ruleId?: string;
+    ruleName?: string;
+    level: string;
+    baselineState: string;
+    suppression: 'not suppressed' | 'suppressed';
+    message: string;
+    /** The local uri the result was resolved to. Undefined if the result has no location or could not be resolved. */
+    uri?: string;
+    /**
+     * Zero-based. Adjusted for any drift in the local file since the analysis if the file is open (or is the `uri` of
+     * the filter). Otherwise as given by the log, as files are not opened merely to be queried.
+     */
+    range?: { start: { line: number, character: number }, end: { line: number, character: number } };
+}
+
+/** An extra column in the SARIF Results Panel. Shown by default, and hideable via the Columns filter. */
+export interface ResultColumn {
+    /** Unique. Also the column header. */
+    name: string;
+    /** In pixels. Defaults to 100. */
+    width?: number;
+    /** A dot-separated path within `result.properties`, such as `owner.team`. Ignored if `provideValue` is given. */
+    propertyPath?: string;
+    /** Values are computed when logs are opened, and when columns are registered. */
+    provideValue?(result: Result): string | undefined;
+}
+
+/** An extra action for a result. Shown in the Panel context menu, the Panel details and the editor quick fixes. */
+export interface ResultAction {
+    /** Unique. */
+    id: string;
+    title: string;
+    run(reference: ResultReference, result: Result): unknown;
+}
 
 /**
  * This API is consumed by other extensions. Breaking changes to this API must
@@ -9,13 +79,45 @@ import { CancellationToken, Uri } from 'vscode';
  */
 export interface Api {
     /**
-     * Note: If a log has been modified after open was opened, a close and re-open will be required to "refresh" that log.
+     * Logs from local files are reloaded when modified, and closed when deleted.
      * @param logs An array of Uris to open.
      */
     openLogs(logs: Uri[]): Promise<void>;
+    /**
+     * Fetches and opens logs over HTTP(S). Logs are not watched for changes. Close them with the same URLs.
+     * @param urls An array of URLs to fetch.
+     * @param options.authenticationProviderId Optional VS Code authentication provider (such as `github`) of a bearer token.
+     * @param options.scopes Scopes of the authentication session.
+     */
+    openLogsFromUrl(urls: (string | Uri)[], options?: { authenticationProviderId?: string, scopes?: string[] }, cancellationToken?: CancellationToken): Promise<void>;
+    /**
+     * Opens a log held in memory, such as one produced by an in-process analyzer. No file is written.
+     * Opening again with the same `uri` replaces the log.
+     * @param options.uri Identifies the log. Defaults to a synthetic uri, unique per call.
+     * @param options.label The file name shown for the log when no `uri` is given. Defaults to `log.sarif`.
+     * @returns The uri of the log, which can be passed to `closeLogs`.
+     */
+    openLogText(text: string, options?: { uri?: string, label?: string }): Promise<Uri>;
+    /** As per `openLogText`, with the log serialized. */
+    openLogObject(log: Log, options?: { uri?: string, label?: string }): Promise<Uri>;
     closeLogs(logs: Uri[], _options?: unknown, cancellationToken?: CancellationToken): Promise<void>;
     closeAllLogs(): Promise<void>;
     selectByIndex(uri: Uri, runIndex: number, resultIndex: number): Promise<void>;
     uriBases: ReadonlyArray<Uri>;
+    /**
+     * Queries the open results. Locations are resolved without prompting the user.
+     * @param filter Omit to return all results.
+     */
+    getResults(filter?: ResultFilter): Promise<ResultSummary[]>;
+    /** @returns A `Disposable` that unregisters the column. */
+    registerResultColumn(column: ResultColumn): Disposable;
+    /** @returns A `Disposable` that unregisters the action. */
+    registerResultAction(action: ResultAction): Disposable;
+    /** Fires when logs are opened or closed, whether by the user or the API. A re-loaded log is removed then added. */
+    onDidChangeLogs: Event<LogsChangeEvent>;
+    /** Fires when the user selects a result in the SARIF Results Panel. */
+    onDidSelectResult: Event<ResultReference>;
+    /** Fires when results are marked fixed (such as by applying a fix), or unmarked. */
+    onDidChangeResultsFixed: Event<ResultsFixedChangeEvent>;
     dispose(): void;
 }
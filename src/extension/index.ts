@@ -1,19 +1,35 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
-import { Api } from './index.d';
+import { Api, ResultAction, ResultColumn, ResultFilter } from './index.d';
 import * as vscode from 'vscode';
-import { watch } from 'chokidar';
 import { diffChars } from 'diff';
-import { observe } from 'mobx';
+import { IArraySplice, observe } from 'mobx';
+import { Log } from 'sarif';
 import { CancellationToken, commands, DiagnosticSeverity, Disposable, ExtensionContext, languages, OutputChannel, TextDocument, Uri, window, workspace } from 'vscode';
+import { filtersColumn } from '../shared';
 import '../shared/extension';
 import { getOriginalDoc } from './getOriginalDoc';
+import { getResults } from './getResults';
+import { activateApiEvents } from './index.activateApiEvents';
+import { activateCompareWithBaseline } from './index.activateCompareWithBaseline';
 import { activateDecorations } from './index.activateDecorations';
+import { activateBulkFixes } from './index.activateBulkFixes';
 import { activateFixes } from './index.activateFixes';
+import { activateFixPreview } from './index.activateFixPreview';
 import { activateGithubAnalyses } from './index.activateGithubAnalyses';
 import { activateGithubCommands } from './index.activateGithubCommands';
-import { loadLogs } from './loadLogs';
+import { activatePathMappings } from './index.activatePathMappings';
+import { activateResultContributions } from './index.activateResultContributions';
+import { activateResultsFixedState } from './index.activateResultsFixedState';
+import { activateSuppressions } from './index.activateSuppressions';
+import { activateTriage } from './index.activateTriage';
+import { activateWatchLogFolders, findWatchedLogs } from './index.activateWatchLogFolders';
+import { isLogFileName } from './decompressLog';
+import { FetchLogOptions, loadLogsFromUrls } from './fetchLog';
+import { deleteUpgradedLogs, isLogFromFile, loadLogs, loadLogsWithProgress, readLogText } from './loadLogs';
+import { LogWatcher } from './logWatcher';
+import { openLogText } from './openLogText';
 import { Panel } from './panel';
 import { driftedRegionToSelection } from './regionToSelection';
 import { ResultDiagnostic } from './resultDiagnostic';
@@ -48,11 +64,41 @@ export async function activate(context: ExtensionContext): Promise<Api> {
     const store = new Store();
 
     // Basing
-    const baser = new UriRebaser(store);
+    const baser = new UriRebaser(store, context.workspaceState);
+    disposables.push(commands.registerCommand('sarif.forgetLearnedPaths', async () => {
+        const items = baser.learnedBases.map(base => ({
+            label: `${base.artifactBase} → ${base.localBase}`,
+            description: [base.tool, base.log && Uri.parse(base.log, false).path.file].filter(scope => scope).join(' · '),
+            base,
+        }));
+        if (!items.length) {
+            void window.showInformationMessage('No learned paths.');
+            return;
+        }
+        const selected = await window.showQuickPick(items, { canPickMany: true, placeHolder: 'Select learned paths to forget.' });
+        if (!selected?.length) return;
+        baser.forgetBases(selected.map(item => item.base));
+    }));
 
     // Panel
     const panel = new Panel(context, baser, store);
     disposables.push(commands.registerCommand('sarif.showPanel', () => panel.show()));
+    disposables.push(commands.registerCommand('sarif.openLogFromUrl', async () => {
+        const url = await window.showInputBox({
+            prompt: 'URL of a SARIF log',
+            placeHolder: 'https://example.com/results.sarif',
+            ignoreFocusOut: true,
+            validateInput: value => /^https?:\/\/\S+$/i.test(value.trim()) ? undefined : 'Enter an http:// or https:// URL.',
+        });
+        if (!url) return;
+        const auth = await window.showQuickPick([
+            { label: 'None', providerId: undefined },
+            { label: 'GitHub', providerId: 'github' },
+            { label: 'Microsoft', providerId: 'microsoft' },
+        ], { placeHolder: 'Authentication (sent as a bearer token)' });
+        if (!auth) return;
+        await api.openLogsFromUrl([url.trim()], { authenticationProviderId: auth.providerId });
+    }));
 
     // URI handler
     disposables.push(window.registerUriHandler({
@@ -120,7 +166,16 @@ export async function activate(context: ExtensionContext): Promise<Api> {
     activateSelectionSync(disposables, store, panel);
     activateGithubAnalyses(disposables, store, panel, outputChannel);
     activateGithubCommands(disposables, store, outputChannel);
-    activateFixes(disposables, store, baser);
+    activateFixes(disposables, store, baser, outputChannel);
+    activateFixPreview(disposables, store, baser, outputChannel);
+    activateBulkFixes(disposables, store, panel, baser, outputChannel);
+    activatePathMappings(disposables);
+    activateResultContributions(disposables, store);
+    activateWatchLogFolders(disposables, store, panel);
+    activateCompareWithBaseline(disposables, store);
+    activateResultsFixedState(disposables, store, context.workspaceState);
+    activateTriage(disposables, store);
+    activateSuppressions(disposables, store, panel);
 
     // Check for Updates
     if (!isDebugOrTestMode) {
@@ -131,44 +186,47 @@ export async function activate(context: ExtensionContext): Promise<Api> {
         update();
     }
 
-    // For now, we keep file watch functionality limited to the API.
-    // After we're sure it's working well, consider also enabling it for files opened manually.
-    // FIXME: Possible race condition if a file is changed multiple times in quick succession.
-    // 1. First change event fires (denoted as [1]).
-    // 2. [1] Log is removed from the store.
-    // 3. Second change event fires (denoted as [2]).
-    // 4. [2] Log is removed from the store (returns false as it's already been removed).
-    // 5. [1] Log is re-loaded and added to the store.
-    // 6. [2] Log is re-loaded and added (again!) to the store.
-    const watcher = watch([], {
-        ignoreInitial: true
-    }).on('change', async path => {
-        store.logs.removeFirst(log => log._uri === Uri.file(path).toString());
-        store.logs.push(...await loadLogs([Uri.file(path)]));
-    }).on('unlink', path => {
-        store.logs.removeFirst(log => log._uri === Uri.file(path).toString());
-    });
-    disposables.push(new Disposable(async () => await watcher.close()));
+    // Upgraded logs are read from temp files (see `prepareLogs`), which are deleted once the logs are closed.
+    disposables.push({ dispose: observe(store.logs, change => {
+        void deleteUpgradedLogs((change as unknown as IArraySplice<Log>).removed);
+    }) });
+
+    // Watching
+    const logWatcher = new LogWatcher(store, panel);
+    disposables.push(new Disposable(async () => await logWatcher.dispose()));
+
+    // API Events
+    const { onDidChangeLogs, onDidSelectResult, onDidChangeResultsFixed } = activateApiEvents(disposables, store, panel);
 
     // API
     const api = {
         async openLogs(logs: Uri[], _options?: unknown, cancellationToken?: CancellationToken) {
-            watcher.add(logs.map(log => log.fsPath));
-            store.logs.push(...await loadLogs(logs, cancellationToken));
+            store.logs.push(...await loadLogsWithProgress(logs, cancellationToken));
             if (cancellationToken ?.isCancellationRequested) return;
             if (store.results.length) {
                 // TODO should we await?
                 void panel.show();
             }
         },
+        async openLogsFromUrl(urls: (string | Uri)[], options?: FetchLogOptions, cancellationToken?: CancellationToken) {
+            store.logs.push(...await loadLogsFromUrls(urls.map(url => url.toString()), options, cancellationToken));
+            if (cancellationToken?.isCancellationRequested) return;
+            if (store.results.length) void panel.show();
+        },
+        async openLogText(text: string, options?: { uri?: string, label?: string }) {
+            const uri = await openLogText(store, text, options);
+            if (store.results.length) void panel.show();
+            return uri;
+        },
+        async openLogObject(log: Log, options?: { uri?: string, label?: string }) {
+            return await api.openLogText(JSON.stringify(log), options);
+        },
         async closeLogs(logs: Uri[]) {
-            watcher.unwatch(logs.map(log => log.fsPath));
             for (const uri of logs) {
-                store.logs.removeFirst(log => log._uri === uri.toString());
+                store.logs.removeAll(log => isLogFromFile(log, uri.toString()));
             }
         },
         async closeAllLogs() {
-            watcher.unwatch('**/*');
             store.logs.splice(0);
         },
         async selectByIndex(uri: Uri, runIndex: number, resultIndex: number) {
@@ -180,6 +238,27 @@ export async function activate(context: ExtensionContext): Promise<Api> {
         set uriBases(values) {
             baser.uriBases = values.map(uri => uri.toString());
         },
+        async getResults(filter?: ResultFilter) {
+            return await getResults(store, baser, filter);
+        },
+        registerResultColumn(column: ResultColumn) {
+            const builtInColumnNames = ['Line', 'File', 'Message', ...Object.keys(filtersColumn.Columns)];
+            if (builtInColumnNames.includes(column.name) || store.resultColumns.some(existing => existing.name === column.name)) {
+                throw new Error(`A column named '${column.name}' already exists.`);
+            }
+            store.resultColumns.push(column);
+            return new Disposable(() => store.resultColumns.remove(column));
+        },
+        registerResultAction(action: ResultAction) {
+            if (store.resultActions.some(existing => existing.id === action.id)) {
+                throw new Error(`An action with id '${action.id}' already exists.`);
+            }
+            store.resultActions.push(action);
+            return new Disposable(() => store.resultActions.remove(action));
+        },
+        onDidChangeLogs,
+        onDidSelectResult,
+        onDidChangeResultsFixed,
         dispose: () => {
             Telemetry.deactivate();
             api.closeAllLogs();
@@ -187,8 +266,8 @@ export async function activate(context: ExtensionContext): Promise<Api> {
         }
     };
 
-    // By convention, auto-open any logs in the `./.sarif` folder.
-    await api.openLogs(await workspace.findFiles('.sarif/**.sarif'));
+    // By convention, auto-open any logs in the `./.sarif` folder of each workspace folder (see `sarif-viewer.watchedLogGlobs`).
+    await api.openLogs(await findWatchedLogs());
 
     // During development, use the following line to auto-load a log.
     // await api.openLogs([Uri.parse('/path/to/log.sarif')]);
@@ -223,8 +302,7 @@ function activateDiagnostics(disposables: Disposable[], store: Store, baser: Uri
                 return uri === artifactUri;
             });
 
-        const workspaceUri = workspace.workspaceFolders?.[0]?.uri.toString() ?? 'file://';
-        outputChannel.appendLine(`updateDiags ${doc.uri.toString().replace(workspaceUri, '')}. ${matchingResults.length} Results.\n`);
+        outputChannel.appendLine(`updateDiags ${workspace.asRelativePath(doc.uri)}. ${matchingResults.length} Results.\n`);
 
         if (!matchingResults.length) {
             diagsAll.set(doc.uri, []);
@@ -259,24 +337,33 @@ function activateDiagnostics(disposables: Disposable[], store: Store, baser: Uri
 // Sync Open SARIF TextDocuments with Store.logs
 function activateWatchDocuments(disposables: Disposable[], store: Store, panel: Panel) {
     const addLog = async (doc: TextDocument) => {
-        if (!doc.fileName.match(/\.sarif$/i)) return;
-        if (store.logs.some(log => log._uri === doc.uri.toString())) return; // TODO: Potentially redundant, need to verify.
-        store.logs.push(...await loadLogs([doc.uri]));
+        if (!isLogFileName(doc.fileName)) return;
+        if (doc.uri.scheme === 'sarif') return; // Virtual documents of logs already loaded. See `activateVirtualDocuments`.
+        if (store.logs.some(log => isLogFromFile(log, doc.uri.toString()))) return; // TODO: Potentially redundant, need to verify.
+        store.logs.push(...await loadLogsWithProgress([doc.uri]));
         panel.show();
     };
     workspace.textDocuments.forEach(addLog);
     disposables.push(workspace.onDidOpenTextDocument(addLog));
     disposables.push(workspace.onDidCloseTextDocument(doc => {
-        if (!doc.fileName.match(/\.sarif$/i)) return;
-        store.logs.removeFirst(log => log._uri === doc.uri.toString());
+        if (!isLogFileName(doc.fileName)) return;
+        store.logs.removeAll(log => isLogFromFile(log, doc.uri.toString()));
     }));
 }
 
 function activateVirtualDocuments(disposables: Disposable[], store: Store) {
     disposables.push(workspace.registerTextDocumentContentProvider('sarif', {
         provideTextDocumentContent: (uri, token) => {
-            const [logUriEncoded, runIndex, artifactIndex] = uri.path.split('/');
+            const segments = uri.path.split('/');
+            const [logUriEncoded, runIndex, artifactIndex] = segments;
             const logUri = decodeURIComponent(logUriEncoded);
+
+            // Logs themselves (`sarif:<logUri>/<file>`). See the Panel's "selectLog".
+            if (segments.length === 2) {
+                const log = store.logs.find(log => log._uri === logUri);
+                return log ? readLogText(log) : '';
+            }
+
             const artifact = store.logs.find(log => log._uri === logUri)?.runs[+runIndex]?.artifacts?.[+artifactIndex];
             const contents = artifact?.contents;
             if (contents?.rendered?.markdown) return contents?.rendered?.markdown;
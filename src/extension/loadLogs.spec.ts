@@ -4,9 +4,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
 
 import assert from 'assert';
+import { existsSync } from 'fs';
 import { Log } from 'sarif';
 import { URI as Uri } from 'vscode-uri';
 import '../shared/extension';
+import { LogStreamParser } from './readLog';
 
 const proxyquire = require('proxyquire').noCallThru();
 
@@ -30,12 +32,13 @@ describe('loadLogs', () => {
     };
     const uris = Object.keys(files).map(path => Uri.file(path));
     const stubs = {
-        'fs': {
-            readFileSync: (fsPath: string) => JSON.stringify(files[Uri.file(fsPath).path]),
+        './readLog': {
+            readLog: async (fsPath: string) => JSON.parse(JSON.stringify(files[Uri.file(fsPath).path])),
         },
         'vscode': {
             Uri,
             window: {
+                showErrorMessage: () => { },
                 showWarningMessage: () => { },
             },
             workspace: {
@@ -54,6 +57,62 @@ describe('loadLogs', () => {
         assert.strictEqual(logs.every(log => log.version === '2.1.0'), true);
     });
 
+    it('loads each log within an archive', async () => {
+        const { loadLogs } = proxyquire('./loadLogs', {
+            ...stubs,
+            './readLog': { ...stubs['./readLog'], LogStreamParser },
+            './decompressLog': {
+                isCompressedLog: () => true,
+                decompressLog: async () => ['x.sarif', 'y.sarif'].map(name => ({
+                    name,
+                    buffer: Buffer.from(JSON.stringify(files['/EmbeddedContent.sarif'])),
+                })),
+            },
+        });
+        const logs = await loadLogs([Uri.file('/logs.sarif.zip')]) as Log[];
+        assert.deepStrictEqual(logs.map(log => log._uri), ['file:///logs.sarif.zip!/x.sarif', 'file:///logs.sarif.zip!/y.sarif']);
+        assert.strictEqual(logs.every(log => log._text === JSON.stringify(files['/EmbeddedContent.sarif'])), true);
+    });
+
+    it('loads from text', async () => {
+        const { loadLogsFromText } = proxyquire('./loadLogs', stubs);
+        const text = JSON.stringify(files['/oldLog.sarif']);
+        const logs = await loadLogsFromText([{ uri: 'https://example.com/old.sarif', text }, { uri: 'https://example.com/bad.sarif', text: '{' }]) as Log[];
+        assert.strictEqual(logs.length, 1);
+        assert.strictEqual(logs[0]._uri, 'https://example.com/old.sarif');
+        assert.strictEqual(logs[0].version, '2.1.0'); // Upgraded, thus the text is replaced.
+        assert.notStrictEqual(logs[0]._text, text);
+    });
+
+    it('reads the text of summarized logs from archives again', async () => {
+        const { readLogText } = proxyquire('./loadLogs', {
+            ...stubs,
+            './decompressLog': {
+                isCompressedLog: (path: string) => /\.sarif\.zip$/.test(path),
+                decompressLog: async (fsPath: string) => {
+                    assert.strictEqual(fsPath, Uri.file('/logs.sarif.zip').fsPath);
+                    return ['x.sarif', 'y.sarif'].map(name => ({ name, buffer: Buffer.from(`\uFEFF{"name":"${name}"}`) }));
+                },
+            },
+        });
+        const log = { _uri: 'file:///logs.sarif.zip!/y.sarif', _summarized: true } as Log; // As summarized, without `_text`.
+        assert.strictEqual(await readLogText(log), '{"name":"y.sarif"}');
+        assert.strictEqual(await readLogText({ ...log, _text: 'text' }), 'text');
+        await assert.rejects(readLogText({ ...log, _uri: 'file:///logs.sarif.zip!/z.sarif' }));
+    });
+
+    it('deletes the files of upgraded logs', async () => {
+        const { deleteUpgradedLogs, loadLogsFromText } = proxyquire('./loadLogs', stubs);
+        const text = JSON.stringify(files['/oldLog.sarif']);
+        const [log] = await loadLogsFromText([{ uri: 'https://example.com/old.sarif', text }]) as Log[];
+        const { fsPath } = Uri.parse(log._uriUpgraded!, true);
+        assert.strictEqual(existsSync(fsPath), true);
+
+        await deleteUpgradedLogs([log]);
+        assert.strictEqual(existsSync(fsPath), false);
+        await deleteUpgradedLogs([log]); // Already deleted.
+    });
+
     it('detects supported vs unsupported logs', async () => {
         const logsSupported = [] as Log[];
         const logsNotSupported = [] as Log[];
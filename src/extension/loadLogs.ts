@@ -2,34 +2,99 @@
 // Licensed under the MIT License.
 
 /// <reference path="jsonSourceMap.d.ts" />
-import { readFileSync } from 'fs';
-import { Log, ReportingDescriptor } from 'sarif';
+import { promises } from 'fs';
+import { Log, ReportingDescriptor, Result } from 'sarif';
 import { eq, gt, lt } from 'semver';
-import { Uri, window, workspace } from 'vscode';
-import { augmentLog } from '../shared';
+import { tmpNameSync } from 'tmp';
+import { CancellationToken, Progress, ProgressLocation, Uri, window, workspace } from 'vscode';
+import { augmentLog, WorkspaceFolderInfo } from '../shared';
+import '../shared/extension';
+import { decompressLog, isCompressedLog } from './decompressLog';
+import { LogStreamParser, readLog } from './readLog';
 import * as Telemetry from './telemetry';
+import { upgradeLog } from './upgradeLog';
 
 export const driverlessRules = new Map<string, ReportingDescriptor>();
 
-export async function loadLogs(uris: Uri[], token?: { isCancellationRequested: boolean }) {
-    const logs = uris
-        .map(uri => {
-            if (token?.isCancellationRequested) return undefined;
-            try {
-                const file = readFileSync(uri.fsPath, 'utf8')  // Assume scheme file.
-                    .replace(/^\uFEFF/, ''); // Trim BOM.
-                const log = JSON.parse(file) as Log;
-                log._uri = uri.toString();
-                return log;
-            } catch (error) {
-                window.showErrorMessage(`Failed to parse '${uri.fsPath}'`);
-                return undefined;
+// Logs larger than this are sent to the Panel as result summaries. See `summarizeLog`.
+export const summarizeThreshold = 64 * 1024 * 1024;
+
+export async function loadLogs(uris: Uri[], token?: { isCancellationRequested: boolean }, progress?: Progress<{ message?: string, increment?: number }>) {
+    const logs = [] as Log[];
+    for (const uri of uris) {
+        if (token?.isCancellationRequested) break;
+        try {
+            if (isCompressedLog(uri.path)) {
+                progress?.report({ message: uri.path.file });
+                for (const { name, buffer } of await decompressLog(uri.fsPath)) {
+                    const parser = new LogStreamParser();
+                    parser.write(buffer);
+                    const log = parser.end();
+                    log._uri = name === undefined ? uri.toString() : `${uri.toString()}!/${name}`;
+                    log._summarized = buffer.length > summarizeThreshold;
+                    if (!log._summarized) log._text = buffer.toString('utf8').replace(/^\uFEFF/, ''); // The Panel cannot fetch (nor decompress) the original.
+                    logs.push(log);
+                }
+                progress?.report({ increment: 100 / uris.length });
+                continue;
             }
-        })
-        .filter(log => log) as Log[];
 
+            let bytesReported = 0;
+            const log = await readLog(uri.fsPath, (bytesRead, bytesTotal) => { // Assume scheme file.
+                const increment = (bytesRead - bytesReported) / bytesTotal * 100 / uris.length;
+                bytesReported = bytesRead;
+                progress?.report({ message: uri.path.file, increment });
+            }, token);
+            if (!log) break; // Cancelled.
+            log._uri = uri.toString();
+            log._summarized = bytesReported > summarizeThreshold;
+            logs.push(log);
+        } catch (error) {
+            window.showErrorMessage(`Failed to parse '${uri.fsPath}'`);
+        }
+    }
+    return await prepareLogs(logs, token);
+}
+
+/**
+ * Loads logs already in memory, such as those fetched from a URL. As with GitHub analyses, the text is retained
+ * (see `_text`) as the Panel and "Log" navigation have no file to read.
+ * @param entries The `uri` identifies the log (for example, to close it) and need not be a file.
+ */
+export async function loadLogsFromText(entries: { uri: string, text: string }[], token?: { isCancellationRequested: boolean }) {
+    const logs = [] as Log[];
+    for (const { uri, text } of entries) {
+        if (token?.isCancellationRequested) break;
+        try {
+            const log = JSON.parse(text.replace(/^\uFEFF/, '')) as Log;
+            log._uri = uri;
+            log._summarized = text.length > summarizeThreshold;
+            log._text = text;
+            logs.push(log);
+        } catch (error) {
+            window.showErrorMessage(`Failed to parse '${uri}'`);
+        }
+    }
+    return await prepareLogs(logs, token);
+}
+
+// Upgrades, filters and augments freshly parsed logs.
+async function prepareLogs(logs: Log[], token?: { isCancellationRequested: boolean }) {
     logs.forEach(log => Telemetry.sendLogVersion(log.version, log.$schema ?? ''));
     logs.forEach(tryFastUpgradeLog);
+    for (const log of logs) {
+        if (!upgradeLog(log)) continue;
+        const text = JSON.stringify(withoutAugmentation(log), null, 2);
+        if (log._text !== undefined) log._text = text; // Otherwise the Panel would receive the original.
+        try {
+            // The Panel and "Log" navigation (see `_jsonMap`) read the upgraded log from this file rather than the original.
+            const fsPath = tmpNameSync({ postfix: '.sarif' });
+            await promises.writeFile(fsPath, text);
+            log._uriUpgraded = Uri.file(fsPath).toString();
+        } catch (error) {
+            log._text = text; // The Panel can still show the upgraded log, though "Log" navigation will show the original.
+        }
+    }
 
     const logsSupported = [] as Log[];
     const logsNotSupported = [] as Log[];
@@ -40,13 +105,9 @@ export async function loadLogs(uris: Uri[], token?: { isCancellationRequested: b
         window.showWarningMessage(`'${fsPath}' was not loaded. Version '${log.version}' and schema '${log.$schema ?? ''}' is not supported.`);
     }
 
-    // primaryWorkspaceFolderUriString expected to be
-    // encoded as `file:///c%3A/folder/`  (toString(false /* encode */))
-    // and not as `file:///c:/folder/`    (toString(true /* skip encode */))
-    const primaryWorkspaceFolderUriString = workspace.workspaceFolders?.[0]?.uri.toString();
+    const workspaceFolders = getWorkspaceFolderInfos();
     logsSupported.forEach(log => {
-        // Only supporting single workspaces for now.
-        augmentLog(log, driverlessRules, primaryWorkspaceFolderUriString);
+        augmentLog(log, driverlessRules, workspaceFolders);
     });
 
     if (warnUpgradeExtension) {
@@ -55,6 +116,90 @@ export async function loadLogs(uris: Uri[], token?: { isCancellationRequested: b
     return logsSupported;
 }
 
+/**
+ * The text of a log, as shown by "Log" navigation. Logs that do not retain their text (see `_text`), such as
+ * summarized logs from archives, are read (and decompressed) again.
+ */
+export async function readLogText(log: Log) {
+    if (log._text !== undefined) return log._text;
+    const separator = log._uri.indexOf('!/');
+    const fileUri = separator < 0 ? log._uri : log._uri.slice(0, separator);
+    if (!log._uriUpgraded && isCompressedLog(fileUri)) {
+        const name = separator < 0 ? undefined : log._uri.slice(separator + 2);
+        const entry = (await decompressLog(Uri.parse(fileUri, true).fsPath)).find(entry => entry.name === name);
+        if (!entry) throw new Error(`'${name}' is no longer in '${fileUri}'.`);
+        return entry.buffer.toString('utf8').replace(/^\uFEFF/, '');
+    }
+    return await promises.readFile(Uri.parse(log._uriUpgraded ?? log._uri, true).fsPath, 'utf8'); // Assume scheme file.
+}
+
+// Deletes the files written by `prepareLogs` for upgraded logs. Called once the logs are closed.
+export async function deleteUpgradedLogs(logs: Log[]) {
+    for (const log of logs) {
+        if (!log._uriUpgraded) continue;
+        try {
+            await promises.unlink(Uri.parse(log._uriUpgraded, true).fsPath);
+        } catch (error) {
+            // Already deleted.
+        }
+    }
+}
+
+// Archives (such as `file:///a.zip`) contain logs with uris such as `file:///a.zip!/x.sarif`.
+export function isLogFromFile(log: Log, fileUri: string) {
+    return log._uri === fileUri || log._uri.startsWith(`${fileUri}!/`);
+}
+
+// Uris are expected to be
+// encoded as `file:///c%3A/folder`  (toString(false /* encode */))
+// and not as `file:///c:/folder`    (toString(true /* skip encode */))
+export function getWorkspaceFolderInfos(): WorkspaceFolderInfo[] {
+    return workspace.workspaceFolders?.map(({ name, uri }) => ({ name, uri: uri.toString() })) ?? [];
+}
+
+// Large logs can take a while, thus we show progress and allow the user to cancel.
+export async function loadLogsWithProgress(uris: Uri[], cancellationToken?: CancellationToken) {
+    return await window.withProgress(
+        { location: ProgressLocation.Notification, title: 'Loading SARIF', cancellable: true },
+        (progress, token) => loadLogs(uris, {
+            get isCancellationRequested() {
+                return !!token?.isCancellationRequested || !!cancellationToken?.isCancellationRequested;
+            }
+        }, progress));
+}
+
+// Augmented members (underscore-prefixed) are omitted as the Panel recomputes them. Some are also circular.
+export function withoutAugmentation<T>(obj: T): T {
+    return Object.fromEntries(Object.entries(obj).filter(([key]) => !key.startsWith('_'))) as unknown as T;
+}
+
+// The members of a `Result` the Panel needs to group, filter and render the results table.
+// The remaining members (such as `codeFlows` and `stacks`) are requested when the result is selected.
+// Fingerprints are included as they identify results (such as for triage) on both sides.
+const summaryMembers = ['ruleId', 'ruleIndex', 'rule', 'kind', 'level', 'message', 'baselineState', 'suppressions', 'properties', 'relatedLocations', 'fingerprints', 'partialFingerprints', 'fixes'];
+
+export function summarizeResult(result: Result): Result {
+    const summary = {} as Record<string, unknown>;
+    for (const member of summaryMembers) {
+        const value = (result as unknown as Record<string, unknown>)[member];
+        if (value !== undefined) summary[member] = value;
+    }
+    summary.locations = result.locations?.slice(0, 1); // The remaining locations are only shown in the Details pane.
+    return summary as unknown as Result;
+}
+
+export function summarizeLog(log: Log): string {
+    const { version, $schema } = log;
+    return JSON.stringify({
+        version,
+        $schema,
+        runs: log.runs?.map(run => ({
+            ...withoutAugmentation(run),
+            results: run.results?.map(summarizeResult),
+        })),
+    });
+}
+
 export function normalizeSchema(schema: string): string {
     if (schema === '') return '';
     return new URL(schema).pathname.split('/').pop()
@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { EventEmitter } from 'events';
+import { observable } from 'mobx';
+import { Log } from 'sarif';
+import { URI as Uri } from 'vscode-uri';
+import { augmentLog } from '../shared';
+import '../shared/extension';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('LogWatcher', () => {
+    const uri = Uri.file('/a.sarif');
+    const createLog = (...ruleIds: string[]) => {
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                tool: { driver: { name: 'Tool' } },
+                results: ruleIds.map(ruleId => ({ ruleId, message: { text: ruleId }, partialFingerprints: { hash: ruleId } })),
+            }],
+        } as any as Log;
+        log._uri = uri.toString();
+        augmentLog(log);
+        return log;
+    };
+
+    let loadCount = 0;
+    let nextLog = createLog();
+    let fileExists = true;
+    const watched = new Set<string>();
+    const fsWatcher = Object.assign(new EventEmitter(), {
+        add: (path: string) => watched.add(path),
+        unwatch: (path: string) => watched.delete(path),
+        close: async () => undefined,
+    });
+    const { LogWatcher } = proxyquire('./logWatcher', {
+        'chokidar': { watch: () => fsWatcher },
+        'fs': { existsSync: () => fileExists },
+        'vscode': { Uri },
+        './loadLogs': {
+            isLogFromFile: (log: Log, fileUri: string) => log._uri === fileUri,
+            loadLogs: async () => {
+                loadCount++;
+                await new Promise(resolve => setTimeout(resolve, 10)); // Allow loads to overlap, if they were not serialized.
+                return [nextLog];
+            },
+        },
+        './panel': {},
+        './store': {},
+    });
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    let store: { logs: Log[], resultsFixed: string[] };
+    let panel: { selectedResultId: unknown, select: (result: unknown) => void };
+    let logWatcher: any;
+    beforeEach(() => {
+        loadCount = 0;
+        fileExists = true;
+        watched.clear();
+        fsWatcher.removeAllListeners();
+        store = observable({ logs: [] as Log[], resultsFixed: [] as string[] }, { logs: observable.shallow });
+        panel = { selectedResultId: undefined, select: () => undefined };
+        logWatcher = new LogWatcher(store, panel, 5);
+    });
+    afterEach(async () => await logWatcher.dispose());
+
+    it('watches opened logs, and unwatches closed logs', () => {
+        store.logs.push(createLog('R1'));
+        assert.deepStrictEqual([...watched], [uri.fsPath]);
+        store.logs.splice(0);
+        assert.strictEqual(watched.size, 0);
+    });
+
+    it('debounces and serializes reloads', async () => {
+        store.logs.push(createLog('R1'));
+        nextLog = createLog('R1', 'R2');
+        fsWatcher.emit('change', uri.fsPath);
+        fsWatcher.emit('change', uri.fsPath);
+        await delay(20);
+        fsWatcher.emit('change', uri.fsPath); // During the first reload.
+        await delay(50);
+        assert.strictEqual(loadCount, 2);
+        assert.strictEqual(store.logs.length, 1);
+        assert.strictEqual(store.logs[0], nextLog);
+    });
+
+    it('carries over results marked fixed by fingerprint', async () => {
+        const logOld = createLog('R1', 'R2');
+        store.logs.push(logOld);
+        store.resultsFixed.push(JSON.stringify(logOld.runs[0].results![1]._id));
+        nextLog = createLog('R2', 'R1'); // Positionally, the fixed result would now be R1.
+        fsWatcher.emit('change', uri.fsPath);
+        await delay(30);
+        assert.deepStrictEqual(store.resultsFixed.slice(), [JSON.stringify(nextLog.runs[0].results![0]._id)]);
+    });
+
+    it('closes deleted logs', async () => {
+        store.logs.push(createLog('R1'));
+        fileExists = false;
+        fsWatcher.emit('unlink', uri.fsPath);
+        await delay(30);
+        assert.strictEqual(loadCount, 0);
+        assert.strictEqual(store.logs.length, 0);
+        assert.strictEqual(watched.size, 0);
+    });
+});
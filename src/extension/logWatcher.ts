@@ -0,0 +1,129 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { watch } from 'chokidar';
+import { existsSync } from 'fs';
+import { IArraySplice, observe } from 'mobx';
+import { Log, Result } from 'sarif';
+import { Uri } from 'vscode';
+import { findResult, getResultFingerprint } from '../shared';
+import '../shared/extension';
+import { isLogFromFile, loadLogs } from './loadLogs';
+import { Panel } from './panel';
+import { Store } from './store';
+
+// The file of a log, if it is a local file. Logs within archives (`file:///a.zip!/x.sarif`) map to the archive.
+function getLogFile(log: Log): Uri | undefined {
+    const uri = Uri.parse(log._uri.replace(/!\/.*$/, ''), true);
+    return uri.scheme === 'file' ? uri : undefined;
+}
+
+function getResults(logs: Log[]) {
+    return logs.map(log => log.runs).flat().map(run => run.results ?? []).flat();
+}
+
+/**
+ * Reloads logs when their files change, and closes them when their files are deleted.
+ * All logs from local files are watched, regardless of how they were opened.
+ *
+ * Bursts of change events (such as a tool writing a log in chunks) are debounced, and reloads of the same file are
+ * serialized. Otherwise two overlapping reloads could both add the log. Results marked fixed and the selected result
+ * are carried over to the reloaded log by matching fingerprints (see `getResultFingerprint`).
+ */
+export class LogWatcher {
+    private readonly watcher = watch([], { ignoreInitial: true })
+    private readonly watched = new Set<string>() // File uris.
+    private readonly timers = new Map<string, NodeJS.Timeout>()
+    private readonly reloads = new Map<string, Promise<void>>() // The tail of the reload queue per file uri.
+    private readonly disposeObserver: () => void
+
+    constructor(
+        readonly store: Pick<Store, 'logs' | 'resultsFixed'>,
+        readonly panel: Pick<Panel, 'select' | 'selectedResultId'>,
+        readonly debounceMs = 300) {
+        this.watcher
+            .on('change', path => this.schedule(Uri.file(path)))
+            .on('unlink', path => this.schedule(Uri.file(path)));
+        this.disposeObserver = observe(store.logs, change => {
+            const {removed, added} = change as unknown as IArraySplice<Log>;
+            for (const uri of added.map(getLogFile)) {
+                if (!uri || this.watched.has(uri.toString())) continue;
+                this.watched.add(uri.toString());
+                this.watcher.add(uri.fsPath);
+            }
+            for (const uri of removed.map(getLogFile)) {
+                if (!uri || !this.watched.has(uri.toString())) continue;
+                if (this.reloads.has(uri.toString())) continue; // Reloading, thus about to be added again.
+                if (store.logs.some(log => isLogFromFile(log, uri.toString()))) continue; // Such as other logs within the same zip.
+                this.watched.delete(uri.toString());
+                this.watcher.unwatch(uri.fsPath);
+            }
+        });
+    }
+
+    private schedule(uri: Uri) {
+        const key = uri.toString();
+        const timer = this.timers.get(key);
+        if (timer) clearTimeout(timer);
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            const reload = (this.reloads.get(key) ?? Promise.resolve())
+                .then(() => this.reload(uri))
+                .catch(() => undefined); // As per `loadLogs`, errors are reported to the user there.
+            this.reloads.set(key, reload);
+            reload.then(() => {
+                if (this.reloads.get(key) === reload) this.reloads.delete(key);
+            });
+        }, this.debounceMs));
+    }
+
+    // Exposed for testing. Otherwise use `schedule`.
+    async reload(uri: Uri) {
+        const {store, panel} = this;
+        const fileUri = uri.toString();
+        if (!this.watched.has(fileUri)) return; // Closed since the change.
+
+        const logsNew = existsSync(uri.fsPath) ? await loadLogs([uri]) : [];
+        if (!this.watched.has(fileUri)) return; // Closed during the load.
+
+        // Note the state of the outgoing results, by fingerprint.
+        const logsOld = store.logs.filter(log => isLogFromFile(log, fileUri));
+        const idsOld = new Set(getResults(logsOld).map(result => JSON.stringify(result._id)));
+        const fingerprintsFixed = getResults(logsOld)
+            .filter(result => store.resultsFixed.includes(JSON.stringify(result._id)))
+            .map(getResultFingerprint);
+        const selected = panel.selectedResultId && findResult(logsOld, panel.selectedResultId);
+        const fingerprintSelected = selected && getResultFingerprint(selected);
+
+        // The reloaded log has the same uri, thus the old ids would otherwise apply to the (positionally) same new results.
+        // The logs are removed first, thus the ids are not mistaken for results the user unmarked (see `activateResultsFixedState`).
+        store.logs.removeAll(log => isLogFromFile(log, fileUri));
+        store.resultsFixed.removeAll(id => idsOld.has(id));
+        store.logs.push(...logsNew);
+
+        const resultsNew = getResults(logsNew);
+        const resultsFixed = [] as Result[];
+        for (const fingerprint of fingerprintsFixed) {
+            const result = resultsNew.find(result => !resultsFixed.includes(result) && getResultFingerprint(result) === fingerprint);
+            if (result) resultsFixed.push(result);
+        }
+        store.resultsFixed.push(...resultsFixed
+            .map(result => JSON.stringify(result._id))
+            .filter(id => !store.resultsFixed.includes(id))); // Possibly already restored by fingerprint.
+
+        const resultSelected = fingerprintSelected && resultsNew.find(result => getResultFingerprint(result) === fingerprintSelected);
+        if (resultSelected) panel.select(resultSelected);
+
+        if (!logsNew.length) {
+            this.watched.delete(fileUri);
+            this.watcher.unwatch(uri.fsPath);
+        }
+    }
+
+    async dispose() {
+        this.disposeObserver();
+        this.timers.forEach(clearTimeout);
+        this.timers.clear();
+        await this.watcher.close();
+    }
+}
@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Allowing any for mocks.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { URI as Uri } from 'vscode-uri';
+import '../shared/extension';
+import { log } from '../test/mockLog';
+import { Store } from './store';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('openLogText', () => {
+    const text = JSON.stringify(log);
+    const { openLogText } = proxyquire('./openLogText', {
+        'vscode': { Uri },
+        './loadLogs': {
+            loadLogsFromText: async (entries: { uri: string, text: string }[]) => entries.map(({ uri, text }) => {
+                const log = JSON.parse(text) as Log;
+                log._uri = uri;
+                log._text = text;
+                return log;
+            }),
+        },
+    });
+
+    it('opens logs under synthetic uris, unique per call', async () => {
+        const store = new Store();
+        const uri1 = await openLogText(store, text, { label: 'inMemory.sarif' }) as Uri;
+        const uri2 = await openLogText(store, text, { label: 'inMemory.sarif' }) as Uri;
+        assert.strictEqual(uri1.scheme, 'sarif-memory');
+        assert.strictEqual(uri1.path.file, 'inMemory.sarif');
+        assert.notStrictEqual(uri1.toString(), uri2.toString());
+        assert.deepStrictEqual(store.logs.map(log => log._uri), [uri1.toString(), uri2.toString()]);
+        assert.strictEqual(store.logs[0]._text, text);
+        assert.strictEqual((await openLogText(store, text) as Uri).path.file, 'log.sarif');
+    });
+
+    it('replaces a log opened again with the same uri', async () => {
+        const store = new Store();
+        const uri = await openLogText(store, text, { uri: 'https://example.com/log.sarif' }) as Uri;
+        assert.strictEqual(uri.toString(), 'https://example.com/log.sarif');
+        const [logOpened] = store.logs;
+
+        await openLogText(store, text, { uri: 'https://example.com/log.sarif' });
+        assert.strictEqual(store.logs.length, 1);
+        assert.notStrictEqual(store.logs[0], logOpened);
+
+        store.logs.removeAll(log => log._uri === uri.toString()); // As per `closeLogs`.
+        assert.strictEqual(store.logs.length, 0);
+    });
+});
@@ -0,0 +1,20 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { Uri } from 'vscode';
+import '../shared/extension';
+import { loadLogsFromText } from './loadLogs';
+import { Store } from './store';
+
+let inMemoryLogCount = 0;
+
+// See `Api.openLogText`.
+export async function openLogText(store: Pick<Store, 'logs'>, text: string, options: { uri?: string, label?: string } = {}) {
+    // Synthetic uris are unique per call, thus the same label can be opened more than once.
+    const uri = options.uri
+        ? Uri.parse(options.uri, true)
+        : Uri.from({ scheme: 'sarif-memory', path: `/${++inMemoryLogCount}/${options.label ?? 'log.sarif'}` });
+    store.logs.removeAll(log => log._uri === uri.toString()); // Re-opening replaces.
+    store.logs.push(...await loadLogsFromText([{ uri: uri.toString(), text }]));
+    return uri;
+}
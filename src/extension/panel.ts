@@ -2,14 +2,15 @@
 // Licensed under the MIT License.
 
 import { diffChars } from 'diff';
-import * as fs from 'fs';
 import jsonMap from 'json-source-map';
-import { autorun, IArraySplice, observable, observe } from 'mobx';
+import { autorun, IArraySplice, observable, observe, untracked } from 'mobx';
 import { Log, Region, Result } from 'sarif';
-import { commands, ExtensionContext, TextEditorRevealType, Uri, ViewColumn, WebviewPanel, window, workspace } from 'vscode';
-import { CommandPanelToExtension, filtersColumn, filtersRow, JsonMap, ResultId } from '../shared';
+import { commands, EventEmitter, ExtensionContext, TextEditorRevealType, Uri, ViewColumn, WebviewPanel, window, workspace } from 'vscode';
+import { CommandPanelToExtension, filtersColumn, filtersDuplicates, filtersRow, findResult, getResultFingerprint, isLogFileAsLoaded, JsonMap, ResultContributions, ResultId, Triage } from '../shared';
 import { getOriginalDoc } from './getOriginalDoc';
-import { loadLogs } from './loadLogs';
+import { compressedLogExtensions, isCompressedLog } from './decompressLog';
+import { getColumnValue } from './index.activateResultContributions';
+import { getWorkspaceFolderInfos, loadLogsWithProgress, readLogText, summarizeLog, withoutAugmentation } from './loadLogs';
 import { driftedRegionToSelection } from './regionToSelection';
 import { Store } from './store';
 import { UriRebaser } from './uriRebaser';
@@ -17,11 +18,17 @@ import { UriRebaser } from './uriRebaser';
 export class Panel {
     private title = 'SARIF Result'
     @observable private panel: WebviewPanel | null = null
+    private readonly didSelectResult = new EventEmitter<ResultId>()
+    readonly onDidSelectResult = this.didSelectResult.event
+    public selectedResultId: ResultId | undefined // As last known. Only results with locations are reported by the Panel.
+    private readonly visibleResultIdsRequests = new Map<number, (ids: ResultId[] | undefined) => void>() // Pending `getVisibleResultIds`, keyed by request id.
+    private visibleResultIdsRequestCount = 0
 
     constructor(
         readonly context: Pick<ExtensionContext, 'extensionPath' | 'subscriptions'>,
         readonly basing: UriRebaser,
-        readonly store: Pick<Store, 'analysisInfo' | 'banner' | 'disableSelectionSync' | 'logs' | 'results' | 'resultsFixed' | 'remoteAnalysisInfoUpdated'>) {
+        readonly store: Pick<Store, 'analysisInfo' | 'banner' | 'disableSelectionSync' | 'logs' | 'results' | 'resultsFixed' | 'remoteAnalysisInfoUpdated' | 'resultActions' | 'resultColumns' | 'triage'>) {
+        context.subscriptions.push(this.didSelectResult);
         observe(store.logs, change => {
             const {type, removed, added} = change as unknown as IArraySplice<Log>;
             if (type !== 'splice') throw new Error('Only splice allowed on store.logs.');
@@ -40,6 +47,13 @@ export class Panel {
         autorun(() => {
             this.panel?.webview.postMessage({ command: 'setBanner', text: store.banner });
         });
+        autorun(() => {
+            if (!this.panel) return;
+            this.panel.webview.postMessage(this.createContributionsMessage());
+        });
+        autorun(() => {
+            this.panel?.webview.postMessage({ command: 'setTriage', triage: store.triage });
+        });
     }
 
     public async show() {
@@ -58,7 +72,10 @@ export class Panel {
                 retainContextWhenHidden: true,
             }
         );
-        this.panel.onDidDispose(() => this.panel = null);
+        this.panel.onDidDispose(() => {
+            this.panel = null;
+            this.visibleResultIdsRequests.forEach(resolve => resolve(undefined));
+        });
 
         const srcPanel = Uri.file(`${context.extensionPath}/out/panel.js`);
         const srcInit = Uri.file(`${context.extensionPath}/out/init.js`);
@@ -66,6 +83,7 @@ export class Panel {
             version: 0,
             filtersRow,
             filtersColumn,
+            filtersDuplicates,
         };
 
         // JSON.stringify emits double quotes. To not conflict, certain attribute values use single quotes.
@@ -81,8 +99,8 @@ export class Panel {
                     script-src  vscode-resource:;
                     style-src   vscode-resource: 'unsafe-inline';
                     ">
-                <meta name="storeState"        content='${JSON.stringify(Store.globalState.get('view', defaultState))}'>
-                <meta name="storeWorkspaceUri" content="${workspace.workspaceFolders?.[0]?.uri.toString() ?? ''}">
+                <meta name="storeState"        content='${JSON.stringify({ ...defaultState, ...Store.globalState.get('view', defaultState) })}'>
+                <meta name="storeWorkspaceFolders" content='${JSON.stringify(getWorkspaceFolderInfos()).replace(/'/g, '&#39;')}'>
                 <meta name="storeBanner"       content='${store.banner}'>
                 <style>
                     code { font-family: ${workspace.getConfiguration('editor').get('fontFamily')} }
@@ -102,16 +120,19 @@ export class Panel {
                 case 'load' : {
                     // Extension sends Panel an initial set of logs.
                     await this.panel?.webview.postMessage(this.createSpliceLogsMessage([], store.logs));
+                    await this.spliceResultsFixed([], store.resultsFixed.slice()); // Such as those restored from the workspace state.
+                    await this.panel?.webview.postMessage(this.createContributionsMessage());
+                    await this.panel?.webview.postMessage({ command: 'setTriage', triage: store.triage });
                     break;
                 }
                 case 'open': {
                     const uris = await window.showOpenDialog({
                         canSelectMany: true,
                         defaultUri: workspace.workspaceFolders?.[0]?.uri,
-                        filters: { 'SARIF files': ['sarif', 'json'] },
+                        filters: { 'SARIF files': ['sarif', 'json', ...compressedLogExtensions] },
                     });
                     if (!uris) return;
-                    store.logs.push(...await loadLogs(uris));
+                    store.logs.push(...await loadLogsWithProgress(uris));
                     break;
                 }
                 case 'closeLog': {
@@ -128,9 +149,11 @@ export class Panel {
 
                     const log = store.logs.find(log => log._uri === logUri);
                     if (!log) return;
+                    this.selectedResultId = message.id as ResultId;
+                    this.didSelectResult.fire(message.id as ResultId);
 
-                    const versionControlProvenance = log.runs[runIndex].versionControlProvenance;
-                    const validatedUri = await basing.translateArtifactToLocal(uri, uriBase, versionControlProvenance);
+                    const run = log.runs[runIndex];
+                    const validatedUri = await basing.translateArtifactToLocal(uri, uriBase, run.versionControlProvenance, { _log: log, _run: run });
                     if (!validatedUri) return;
                     await this.selectLocal(logUri, validatedUri, region);
                     break;
@@ -140,11 +163,19 @@ export class Panel {
                     const log = store.logs.find(log => log._uri === logUri);
                     if (!log) return;
 
-                    const logUriUpgraded = Uri.parse(log._uriUpgraded ?? log._uri, true);
+                    // Logs without a (readable) file, such as those from archives, are shown as virtual documents.
+                    const isVirtual = !log._uriUpgraded && (log._text !== undefined || isCompressedLog(log._uri.replace(/!\/.*$/, '')));
+                    const logUriUpgraded = isVirtual
+                        ? Uri.parse(encodeURI(`sarif:${encodeURIComponent(log._uri)}/${log._uri.file}`), true)
+                        : Uri.parse(log._uriUpgraded ?? log._uri, true);
                     if (!log._jsonMap) {
-                        const file = fs.readFileSync(logUriUpgraded.fsPath, 'utf8')  // Assume scheme file.
-                            .replace(/^\uFEFF/, ''); // Trim BOM.
-                        log._jsonMap = (jsonMap.parse(file) as { pointers: JsonMap }).pointers;
+                        try {
+                            const file = (await readLogText(log)).replace(/^\uFEFF/, ''); // Trim BOM.
+                            log._jsonMap = (jsonMap.parse(file) as { pointers: JsonMap }).pointers;
+                        } catch (error) {
+                            void window.showErrorMessage(`Failed to read '${log._uri.file}'. ${error instanceof Error ? error.message : ''}`);
+                            return;
+                        }
                     }
 
                     const { value, valueEnd } = log._jsonMap[`/runs/${runIndex}/results/${resultIndex}`];
@@ -167,11 +198,43 @@ export class Panel {
                     await store.remoteAnalysisInfoUpdated++;
                     break;
                 }
+                case 'updateTriage': {
+                    const result = findResult(store.logs, message.id as ResultId);
+                    if (!result) return;
+                    const fingerprint = getResultFingerprint(result);
+                    const triage = message.triage as Triage;
+                    const triageAll = { ...store.triage }; // Replaced rather than mutated, see `Store.triage`.
+                    if (triage.state === 'untriaged' && !triage.assignee && !triage.note) {
+                        delete triageAll[fingerprint]; // Keeps the file free of defaults.
+                    } else {
+                        triageAll[fingerprint] = triage;
+                    }
+                    store.triage = triageAll;
+                    break;
+                }
                 case 'removeResultFixed': {
                     const idToRemove = JSON.stringify(message.id);
                     store.resultsFixed.removeFirst(id => id === idToRemove);
                     break;
                 }
+                case 'loadResultDetails': {
+                    const result = findResult(store.logs, message.id as ResultId);
+                    if (!result) return;
+                    await this.panel?.webview.postMessage({
+                        command: 'resultDetails',
+                        id: message.id,
+                        text: JSON.stringify(withoutAugmentation(result)),
+                    });
+                    break;
+                }
+                case 'visibleResults': {
+                    this.visibleResultIdsRequests.get(message.requestId)?.(message.ids as ResultId[]);
+                    break;
+                }
+                case 'runResultAction': {
+                    await commands.executeCommand('sarif.runResultAction', { resultId: JSON.stringify(message.id) }, message.actionId);
+                    break;
+                }
                 default:
                     throw new Error(`Unhandled command: ${message.command}`,);
             }
@@ -208,6 +271,7 @@ export class Panel {
 
     public select(result: Result) {
         if (!result?._id) return; // Reduce Panel selection flicker.
+        this.selectedResultId = result._id;
         this.panel?.webview.postMessage({ command: 'select', id: result?._id });
     }
 
@@ -219,21 +283,79 @@ export class Panel {
         this.select(result);
     }
 
+    // As filtered in the current tab of the Panel. Undefined if the Panel is not shown (or does not respond in time).
+    public async getVisibleResultIds(timeout = 5000): Promise<ResultId[] | undefined> {
+        if (!this.panel) return undefined;
+        const requestId = ++this.visibleResultIdsRequestCount;
+        const ids = new Promise<ResultId[] | undefined>(resolve => {
+            const timer = setTimeout(() => resolve(undefined), timeout);
+            this.visibleResultIdsRequests.set(requestId, ids => {
+                clearTimeout(timer);
+                resolve(ids);
+            });
+        });
+        try {
+            if (!await this.panel.webview.postMessage({ command: 'getVisibleResults', requestId })) return undefined;
+            return await ids;
+        } finally {
+            this.visibleResultIdsRequests.delete(requestId);
+        }
+    }
+
+    // Column values are only computed for all logs when the columns change. Otherwise see `spliceLogs`.
+    private createContributionsMessage() {
+        const { logs, resultActions, resultColumns } = this.store;
+        const contributions: ResultContributions = {
+            columns: resultColumns.map(({ name, width }) => ({ name, width: width ?? 100 })),
+            values: untracked(() => this.getColumnValues(logs)),
+            actions: resultActions.map(({ id, title }) => ({ id, title })),
+        };
+        return { command: 'setContributions', ...contributions };
+    }
+
+    private getColumnValues(logs: Log[]): ResultContributions['values'] {
+        const results = logs.map(log => log.runs).flat().map(run => run.results ?? []).flat();
+        return Object.fromEntries(this.store.resultColumns.map(column => [
+            column.name,
+            Object.fromEntries(results.map(result => [JSON.stringify(result._id), getColumnValue(column, result)])),
+        ]));
+    }
+
     private createSpliceLogsMessage(removed: Log[], added: Log[]) {
         return {
             command: 'spliceLogs',
             removed: removed.map(log => log._uri),
-            added: added.map(log => ({
-                text: log._text,
-                uri: log._uri,
-                uriUpgraded: log._uriUpgraded,
-                webviewUri: log._text ? '' : this.panel?.webview.asWebviewUri(Uri.parse(log._uriUpgraded ?? log._uri, true)).toString(),
-            })),
+            added: added.map(log => {
+                // Summarized logs are too large for the Panel to fetch and parse in full.
+                const text = log._summarized ? summarizeLog(log) : log._text;
+                return {
+                    text,
+                    uri: log._uri,
+                    uriUpgraded: log._uriUpgraded,
+                    fileAsLoaded: isLogFileAsLoaded(log),
+                    summarized: log._summarized,
+                    webviewUri: text ? '' : this.panel?.webview.asWebviewUri(Uri.parse(log._uriUpgraded ?? log._uri, true)).toString(),
+                };
+            }),
         };
     }
 
     private async spliceLogs(removed: Log[], added: Log[]) {
         await this.panel?.webview.postMessage(this.createSpliceLogsMessage(removed, added));
+        if (!this.store.resultColumns.length) return;
+        await this.panel?.webview.postMessage({
+            command: 'spliceContributionValues',
+            removed: removed.map(log => log._uri),
+            values: this.getColumnValues(added),
+        });
+    }
+
+    public async setSuppressions(result: Result) {
+        await this.panel?.webview.postMessage({
+            command: 'setSuppressions',
+            id: result._id,
+            suppressions: result.suppressions,
+        });
     }
 
     private async spliceResultsFixed(removed: string[], added: string[]) {
@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { describeHunkFailure, getNewText, locateHunks, parseFilePatches } from './patch';
+
+describe('patch', () => {
+    const patch = [
+        'diff --git a/src/a.js b/src/a.js',
+        '--- a/src/a.js',
+        '+++ b/src/a.js',
+        '@@ -2,3 +2,3 @@',
+        ' two',
+        '-three',
+        '+THREE',
+        ' four',
+        '@@ -8,2 +8,3 @@',
+        ' eight',
+        '+eight and a half',
+        ' nine',
+        'diff --git a/b.txt b/b.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/b.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+        '\\ No newline at end of file',
+        '',
+    ].join('\n');
+
+    it('parses files', () => {
+        const [a, b] = parseFilePatches(patch);
+        assert.strictEqual(a.oldPath, 'src/a.js');
+        assert.strictEqual(a.newPath, 'src/a.js');
+        assert.strictEqual(a.hunks.length, 2);
+        assert.strictEqual(b.oldPath, undefined);
+        assert.strictEqual(b.newPath, 'b.txt');
+        assert.strictEqual(getNewText(b.hunks), 'hello\nworld');
+    });
+
+    it('locates drifted hunks', () => {
+        const [a] = parseFilePatches(patch);
+        const lines = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+        const { matches, failures } = locateHunks(lines, a.hunks);
+        assert.deepStrictEqual(failures, []);
+        assert.deepStrictEqual(matches.map(({ start, length, newLines }) => ({ start, length, newLines })), [
+            { start: 2, length: 3, newLines: ['two', 'THREE', 'four'] },
+            { start: 8, length: 2, newLines: ['eight', 'eight and a half', 'nine'] },
+        ]);
+    });
+
+    it('reports hunks that do not apply', () => {
+        const [a] = parseFilePatches(patch);
+        const lines = ['one', 'two', '3', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+        const { matches, failures } = locateHunks(lines, a.hunks);
+        assert.deepStrictEqual(matches.map(({ start }) => start), [7]);
+        assert.deepStrictEqual(failures, [a.hunks[0]]);
+        assert.strictEqual(describeHunkFailure('src/a.js', failures[0], lines), [
+            'src/a.js: @@ -2,3 +2,3 @@',
+            'Expected:',
+            '    two',
+            '    three',
+            '    four',
+            'Found at line 2:',
+            '    two',
+            '    3',
+            '    four',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,96 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { Hunk, parsePatch } from 'diff';
+
+export interface FilePatch {
+    oldPath: string | undefined; // Undefined if the file is created.
+    newPath: string | undefined; // Undefined if the file is deleted.
+    hunks: Hunk[];
+}
+
+// Paths are relative to the root of the repository (or folder) the patch was made in.
+export function parseFilePatches(text: string): FilePatch[] {
+    const toPath = (fileName: string | undefined) => {
+        if (!fileName || fileName === '/dev/null') return undefined;
+        return fileName.replace(/^[ab]\//, ''); // As prefixed by `git diff`.
+    };
+    return parsePatch(text).map(({ oldFileName, newFileName, hunks }) => ({
+        oldPath: toPath(oldFileName),
+        newPath: toPath(newFileName),
+        hunks,
+    }));
+}
+
+const oldLinesOf = (hunk: Hunk) => hunk.lines.filter(line => line[0] === ' ' || line[0] === '-').map(line => line.slice(1));
+const newLinesOf = (hunk: Hunk) => hunk.lines.filter(line => line[0] === ' ' || line[0] === '+').map(line => line.slice(1));
+
+// Whether the new side ends without a newline (marked by `\ No newline at end of file`).
+function newEndsWithoutNewline({ lines }: Hunk) {
+    let i = lines.length - 1;
+    while (i >= 0 && lines[i][0] !== ' ' && lines[i][0] !== '+') i--;
+    return i >= 0 && !!lines[i + 1]?.startsWith('\\');
+}
+
+// The content of a created file.
+export function getNewText(hunks: Hunk[], eol = '\n') {
+    return hunks.map(hunk => {
+        const text = newLinesOf(hunk).map(line => line + eol).join('');
+        return newEndsWithoutNewline(hunk) ? text.slice(0, -eol.length) : text;
+    }).join('');
+}
+
+export interface HunkMatch {
+    start: number; // Zero-based line.
+    length: number; // Of lines replaced.
+    newLines: string[];
+    newEndsWithoutNewline: boolean;
+}
+
+/**
+ * Locates each hunk within the lines of a file. As the file may have changed since the patch was made, each hunk
+ * is searched for outward from its stated line (adjusted by the offset of the previous hunk), as with `git apply`.
+ * Hunks may not overlap.
+ */
+export function locateHunks(lines: string[], hunks: Hunk[]) {
+    const matches = [] as HunkMatch[];
+    const failures = [] as Hunk[];
+    const linesEqual = (a: string, b: string) => a.replace(/\r$/, '') === b.replace(/\r$/, '');
+    let offset = 0;
+    let minStart = 0;
+    for (const hunk of hunks) {
+        const oldLines = oldLinesOf(hunk);
+        const expected = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset; // An insertion is stated as after its line.
+        const isMatch = (start: number) => start >= minStart
+            && start + oldLines.length <= lines.length
+            && oldLines.every((line, i) => linesEqual(lines[start + i], line));
+
+        let start = undefined as number | undefined;
+        for (let distance = 0; expected - distance >= minStart || expected + distance <= lines.length; distance++) {
+            if (isMatch(expected + distance)) { start = expected + distance; break; }
+            if (distance && isMatch(expected - distance)) { start = expected - distance; break; }
+        }
+        if (start === undefined) {
+            failures.push(hunk);
+            continue;
+        }
+        matches.push({ start, length: oldLines.length, newLines: newLinesOf(hunk), newEndsWithoutNewline: newEndsWithoutNewline(hunk) });
+        offset = start - (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1);
+        minStart = start + oldLines.length;
+    }
+    return { matches, failures };
+}
+
+// The expected lines of a failed hunk, and the lines actually found at its stated position.
+export function describeHunkFailure(path: string, hunk: Hunk, lines: string[]) {
+    const { oldStart, oldLines, newStart, newLines } = hunk;
+    const start = Math.max(0, hunk.oldLines === 0 ? oldStart : oldStart - 1);
+    const found = lines.slice(start, start + Math.max(oldLines, 1));
+    return [
+        `${path}: @@ -${oldStart},${oldLines} +${newStart},${newLines} @@`,
+        'Expected:',
+        ...oldLinesOf(hunk).map(line => `    ${line}`),
+        `Found at line ${start + 1}:`,
+        ...found.map(line => `    ${line.replace(/\r$/, '')}`),
+    ].join('\n');
+}
@@ -0,0 +1,45 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { mockVscode } from '../test/mockVscode';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('pathMappings', () => {
+    const { globToRegExp, mapPath } = proxyquire('./pathMappings', {
+        'vscode': mockVscode,
+    });
+
+    it('maps prefixes', () => {
+        const mappings = [{ from: '/app/', to: '/projects/app/' }];
+        assert.deepStrictEqual(mapPath('/app/src/a.c', mappings), ['/projects/app/src/a.c']);
+        assert.deepStrictEqual(mapPath('/other/src/a.c', mappings), []);
+    });
+
+    it('maps regular expressions', () => {
+        const mappings = [
+            { from: '^/agent/_work/\\d+/s/(.*)', to: '${workspaceFolder}/$1' },
+            { from: '^(', to: 'invalid' }, // Ignored.
+        ];
+        assert.deepStrictEqual(mapPath('/agent/_work/12/s/src/a.c', mappings), ['${workspaceFolder}/src/a.c']);
+    });
+
+    it('respects tool and log scopes', () => {
+        const mappings = [
+            { from: '/app/', to: '/a/', tool: 'ToolA' },
+            { from: '/app/', to: '/b/', log: 'container-*.sarif' },
+            { from: '/app/', to: '/c/' },
+        ];
+        assert.deepStrictEqual(mapPath('/app/x.c', mappings, 'ToolA', '/logs/container-1.sarif'), ['/a/x.c', '/b/x.c', '/c/x.c']);
+        assert.deepStrictEqual(mapPath('/app/x.c', mappings, 'ToolB', '/logs/host.sarif'), ['/c/x.c']);
+        assert.deepStrictEqual(mapPath('/app/x.c', mappings), ['/c/x.c']);
+    });
+
+    it('converts globs', () => {
+        assert(globToRegExp('**/*.sarif').test('/a/b/c.sarif'));
+        assert(globToRegExp('/logs/*.sarif').test('/logs/c.sarif'));
+        assert(!globToRegExp('/logs/*.sarif').test('/logs/b/c.sarif'));
+        assert(!globToRegExp('c.sarif').test('/a/bc.sarif'));
+    });
+});
@@ -0,0 +1,76 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { ConfigurationTarget, workspace } from 'vscode';
+
+export interface PathMapping {
+    from: string; // A path prefix, or a regular expression if it begins with `^`.
+    to: string; // May reference regular expression groups (`$1`) and variables (`${workspaceFolder}`).
+    tool?: string; // Only applies to runs of this tool (`tool.driver.name`).
+    log?: string; // Only applies to logs whose path matches this glob.
+}
+
+const extensionName = 'sarif-viewer';
+export const pathMappingsConfigSection = 'pathMappings';
+
+export function getPathMappings(): PathMapping[] {
+    return workspace.getConfiguration(extensionName).get<PathMapping[]>(pathMappingsConfigSection) ?? [];
+}
+
+// Mappings are managed (and thus persisted) per workspace. Without a workspace, we fall back to the user settings.
+export function getPathMappingsForUpdate(): PathMapping[] {
+    const inspection = workspace.getConfiguration(extensionName).inspect<PathMapping[]>(pathMappingsConfigSection);
+    return (workspace.workspaceFolders ? inspection?.workspaceValue : inspection?.globalValue) ?? [];
+}
+
+export async function updatePathMappings(mappings: PathMapping[]) {
+    await workspace.getConfiguration(extensionName).update(pathMappingsConfigSection, mappings,
+        workspace.workspaceFolders ? ConfigurationTarget.Workspace : ConfigurationTarget.Global);
+}
+
+// Supports `**`, `*` and `?`. Unanchored globs (such as `*.sarif`) match any trailing portion of the path.
+export function globToRegExp(glob: string): RegExp {
+    const source = glob
+        .split(/(\*\*\/?|\*|\?)/)
+        .map(part => {
+            switch (part) {
+                case '**/': return '(?:.*/)?';
+                case '**':  return '.*';
+                case '*':   return '[^/]*';
+                case '?':   return '[^/]';
+                default:    return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        })
+        .join('');
+    return new RegExp(glob.startsWith('/') ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
+export function isValidPathMappingFrom(from: string): boolean {
+    if (!from.startsWith('^')) return !!from;
+    try {
+        new RegExp(from);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Applies the mappings that are in scope to `artifactPath`.
+ * @param logPath The path portion of the log URI.
+ * @returns The mapped paths (variables not yet resolved), in the order of the mappings.
+ */
+export function mapPath(artifactPath: string, mappings: PathMapping[], toolName?: string, logPath?: string): string[] {
+    return mappings
+        .filter(mapping => !mapping.tool || mapping.tool === toolName)
+        .filter(mapping => !mapping.log || (logPath !== undefined && globToRegExp(mapping.log).test(logPath)))
+        .map(({ from, to }) => {
+            if (!isValidPathMappingFrom(from)) return undefined; // Settings can be hand-edited.
+            if (from.startsWith('^')) {
+                const rx = new RegExp(from);
+                return rx.test(artifactPath) ? artifactPath.replace(rx, to) : undefined;
+            }
+            return artifactPath.startsWith(from) ? `${to}${artifactPath.slice(from.length)}` : undefined;
+        })
+        .filter(path => path !== undefined) as string[];
+}
@@ -0,0 +1,62 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { LogStreamParser } from './readLog';
+
+describe('LogStreamParser', () => {
+    const log = {
+        version: '2.1.0',
+        runs: [
+            {
+                tool: { driver: { name: 'Driver', rules: [{ id: 'RULE01' }] } },
+                results: [
+                    { ruleId: 'RULE01', message: { text: 'Brackets [{ in a "string" \\\\' } },
+                    { ruleId: 'RULE01', message: { text: 'Non-ASCII ✓ 漢字' }, codeFlows: [{ threadFlows: [{ locations: [] }] }] },
+                ],
+                artifacts: [{ location: { uri: 'file:///results.txt' } }], // Not to be confused with `results`.
+            },
+            {
+                tool: { driver: { name: 'Driver' } },
+                results: [],
+            },
+            {
+                tool: { driver: { name: 'Driver' } },
+            },
+        ],
+    };
+    const text = JSON.stringify(log, null, 2);
+
+    const parse = (buffer: Buffer, chunkSize: number) => {
+        const parser = new LogStreamParser();
+        for (let i = 0; i < buffer.length; i += chunkSize) {
+            parser.write(buffer.slice(i, i + chunkSize));
+        }
+        return parser.end();
+    };
+
+    it('parses a log in one chunk', () => {
+        assert.deepStrictEqual(parse(Buffer.from(text), Number.MAX_SAFE_INTEGER), log);
+    });
+
+    it('parses a log regardless of chunk boundaries', () => {
+        const buffer = Buffer.from(text);
+        for (const chunkSize of [1, 2, 3, 7, 64]) {
+            assert.deepStrictEqual(parse(buffer, chunkSize), log);
+        }
+    });
+
+    it('trims the BOM', () => {
+        assert.deepStrictEqual(parse(Buffer.from(`\uFEFF${text}`), 16), log);
+    });
+
+    it('parses results that are not part of a run', () => {
+        const externalResults = { version: '2.1.0', results: [{ message: { text: 'Message' } }] } as unknown as Log;
+        assert.deepStrictEqual(parse(Buffer.from(JSON.stringify(externalResults)), 5), externalResults);
+    });
+
+    it('throws if truncated', () => {
+        assert.throws(() => parse(Buffer.from(text.slice(0, text.length / 2)), 16));
+    });
+});
@@ -0,0 +1,167 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { createReadStream, promises } from 'fs';
+import { Log, Result } from 'sarif';
+import '../shared/extension';
+
+// Structural JSON characters. All single-byte in UTF-8, thus safe to scan for byte-by-byte.
+const QUOTE = 0x22, BACKSLASH = 0x5C, COLON = 0x3A, COMMA = 0x2C;
+const BRACE_OPEN = 0x7B, BRACE_CLOSE = 0x7D, BRACKET_OPEN = 0x5B, BRACKET_CLOSE = 0x5D;
+
+interface Frame {
+    isObject: boolean;
+    expectKey: boolean; // Objects only.
+    key: string; // Objects only. The most recent key.
+    count: number; // Arrays only. The number of object elements started so far.
+    isResults: boolean; // True if this frame is a `runs[].results` array.
+}
+
+/**
+ * Parses a SARIF log from a sequence of (UTF-8) chunks. Each `runs[].results[]` element is parsed
+ * on its own as soon as it is complete. Everything else (the "skeleton") is parsed at the end.
+ * As a result, the full text of the log is never held as a single string, which is otherwise
+ * subject to the V8 maximum string length (~512MB).
+ */
+export class LogStreamParser {
+    public bytesRead = 0;
+
+    private stack = [] as Frame[];
+    private inString = false;
+    private escaped = false;
+    private keyBytes: number[] | undefined; // Only collected for keys shallow enough to locate `runs[].results`.
+
+    private skeleton = [] as Buffer[];
+    private runResults = [] as Result[][];
+    private results: Result[] | undefined; // Defined while within a `runs[].results` array.
+    private resultChunks = [] as Buffer[];
+    private resultDepth = 0; // Non-zero while within a result.
+
+    write(chunk: Buffer) {
+        let start = 0;
+        if (this.bytesRead === 0 && chunk[0] === 0xEF && chunk[1] === 0xBB && chunk[2] === 0xBF) start = 3; // Skip BOM.
+        this.bytesRead += chunk.length;
+
+        let skeletonStart = this.results ? -1 : start;
+        let resultStart = this.resultDepth ? start : -1;
+
+        for (let i = start; i < chunk.length; i++) {
+            const c = chunk[i];
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (c === BACKSLASH) {
+                    this.escaped = true;
+                } else if (c === QUOTE) {
+                    this.inString = false;
+                    if (this.keyBytes) {
+                        this.stack.last.key = Buffer.from(this.keyBytes).toString('utf8');
+                        this.keyBytes = undefined;
+                    }
+                    continue;
+                }
+                this.keyBytes?.push(c);
+                continue;
+            }
+
+            if (c === QUOTE) {
+                this.inString = true;
+                const top = this.stack.last as Frame | undefined;
+                if (!this.resultDepth && top?.isObject && top.expectKey && this.stack.length <= 3) this.keyBytes = [];
+                continue;
+            }
+
+            // Within a result, only the depth matters.
+            if (this.resultDepth) {
+                if (c === BRACE_OPEN || c === BRACKET_OPEN) this.resultDepth++;
+                if (c === BRACE_CLOSE || c === BRACKET_CLOSE) this.resultDepth--;
+                if (!this.resultDepth) {
+                    this.resultChunks.push(chunk.slice(resultStart, i + 1));
+                    this.results!.push(JSON.parse(Buffer.concat(this.resultChunks).toString('utf8')));
+                    this.resultChunks = [];
+                    resultStart = -1;
+                }
+                continue;
+            }
+
+            const top = this.stack.last as Frame | undefined;
+            switch (c) {
+                case BRACE_OPEN:
+                    if (top?.isResults) {
+                        this.resultDepth = 1;
+                        resultStart = i;
+                        break;
+                    }
+                    if (top && !top.isObject) top.count++;
+                    this.stack.push({ isObject: true, expectKey: true, key: '', count: 0, isResults: false });
+                    break;
+                case BRACKET_OPEN: {
+                    const [root, runs, run] = this.stack;
+                    const isResults = this.stack.length === 3
+                        && root.isObject && root.key === 'runs'
+                        && !runs.isObject
+                        && run.isObject && run.key === 'results';
+                    this.stack.push({ isObject: false, expectKey: false, key: '', count: 0, isResults });
+                    if (isResults) {
+                        this.results = this.runResults[runs.count - 1] = [];
+                        this.skeleton.push(chunk.slice(skeletonStart, i + 1));
+                        skeletonStart = -1;
+                    }
+                    break;
+                }
+                case BRACE_CLOSE:
+                case BRACKET_CLOSE:
+                    if (top?.isResults) {
+                        this.results = undefined;
+                        skeletonStart = i;
+                    }
+                    this.stack.pop();
+                    break;
+                case COLON:
+                    if (top?.isObject) top.expectKey = false;
+                    break;
+                case COMMA:
+                    if (top?.isObject) top.expectKey = true;
+                    break;
+            }
+        }
+
+        if (skeletonStart >= 0) this.skeleton.push(chunk.slice(skeletonStart));
+        if (resultStart >= 0) this.resultChunks.push(chunk.slice(resultStart));
+    }
+
+    end(): Log {
+        if (this.resultDepth) throw new Error('Unexpected end of log.');
+        const log = JSON.parse(Buffer.concat(this.skeleton).toString('utf8')) as Log;
+        log.runs?.forEach((run, runIndex) => {
+            const results = this.runResults[runIndex];
+            if (results) run.results = results;
+        });
+        return log;
+    }
+}
+
+/**
+ * Reads and parses a SARIF log from disk in chunks.
+ * @returns The log, or undefined if cancelled.
+ */
+export async function readLog(
+    fsPath: string,
+    onProgress?: (bytesRead: number, bytesTotal: number) => void,
+    token?: { isCancellationRequested: boolean }): Promise<Log | undefined> {
+
+    const { size } = await promises.stat(fsPath);
+    const parser = new LogStreamParser();
+    const stream = createReadStream(fsPath, { highWaterMark: 1024 * 1024 });
+    try {
+        for await (const chunk of stream) {
+            if (token?.isCancellationRequested) return undefined;
+            parser.write(chunk as Buffer);
+            onProgress?.(parser.bytesRead, size);
+        }
+    } finally {
+        stream.destroy();
+    }
+    return parser.end();
+}
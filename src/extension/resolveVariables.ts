@@ -0,0 +1,32 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { homedir } from 'os';
+import { workspace } from 'vscode';
+
+/**
+ * Resolves the subset of VS Code predefined variables (https://code.visualstudio.com/docs/editor/variables-reference)
+ * that are meaningful in paths: `${workspaceFolder}`, `${workspaceFolder:name}`, `${workspaceFolderBasename}`,
+ * `${userHome}` and `${env:NAME}`. Unrecognized variables are left as-is.
+ */
+export function resolveVariables(value: string): string {
+    return value.replace(/\$\{([^}:]+)(?::([^}]*))?\}/g, (match: string, name: string, argument: string | undefined) => {
+        const folders = workspace.workspaceFolders ?? [];
+        switch (name) {
+            case 'workspaceFolder': {
+                const folder = argument === undefined
+                    ? folders[0]
+                    : folders.find(folder => folder.name === argument);
+                return folder?.uri.fsPath ?? match;
+            }
+            case 'workspaceFolderBasename':
+                return folders[0]?.name ?? match;
+            case 'userHome':
+                return homedir();
+            case 'env':
+                return process.env[argument ?? ''] ?? '';
+            default:
+                return match;
+        }
+    });
+}
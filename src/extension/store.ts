@@ -4,9 +4,10 @@
 import { computed, IArrayWillSplice, intercept, observable } from 'mobx';
 import { Log } from 'sarif';
 import { Memento } from 'vscode';
-import { mapDistinct } from '../shared';
+import { mapDistinct, Triage } from '../shared';
 import '../shared/extension';
 import { AnalysisInfosForCommit } from './index.activateGithubAnalyses';
+import { ResultAction, ResultColumn } from './index.d';
 
 export class Store {
     static globalState: Memento
@@ -20,11 +21,16 @@ export class Store {
         return runs.map(run => run.results ?? []).flat()
             .filter(result => !this.resultsFixed.includes(JSON.stringify(result._id)));
     }
+    @observable.ref triage = {} as Record<string, Triage> // Keyed by fingerprint. Replaced (not mutated) on change.
     @computed get distinctArtifactNames() {
         const fileAndUris = this.logs.map(log => [...log._distinct.entries()]).flat();
         return mapDistinct(fileAndUris);
     }
 
+    // Registered by other extensions via the API.
+    @observable.shallow resultColumns = [] as ResultColumn[]
+    @observable.shallow resultActions = [] as ResultAction[]
+
     public disableSelectionSync = false;
     public branch = ''
     public commitHash = ''
@@ -34,7 +40,9 @@ export class Store {
     constructor() {
         intercept(this.logs, objChange => {
             const change = objChange as unknown as IArrayWillSplice<Log>;
-            change.added = change.added.filter(log => this.logs.every(existing => existing._uri !== log._uri));
+            // Logs being removed by the same splice can be replaced (such as by a compared log of the same uri).
+            const remaining = this.logs.filter((_, i) => i < change.index || i >= change.index + change.removedCount);
+            change.added = change.added.filter(log => remaining.every(existing => existing._uri !== log._uri));
             return objChange;
         });
     }
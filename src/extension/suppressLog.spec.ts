@@ -0,0 +1,50 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { appendSuppression } from './suppressLog';
+
+describe('appendSuppression', () => {
+    const suppression = { kind: 'external', status: 'accepted', justification: 'Test code.' } as const;
+
+    it('adds suppressions to a result, keeping the formatting', () => {
+        const text = [
+            '{',
+            '  "version": "2.1.0",',
+            '  "runs": [{',
+            '    "results": [',
+            '      {',
+            '        "ruleId": "R1",',
+            '        "message": { "text": "Message" }',
+            '      },',
+            '      { "ruleId": "R2" }',
+            '    ]',
+            '  }]',
+            '}',
+        ].join('\r\n');
+
+        const textFirst = appendSuppression(text, 0, 0, suppression);
+        assert.strictEqual(textFirst, text.replace(
+            '"message": { "text": "Message" }',
+            '"message": { "text": "Message" },\r\n        "suppressions": [{"kind":"external","status":"accepted","justification":"Test code."}]'));
+
+        const textSecond = appendSuppression(textFirst, 0, 1, suppression);
+        assert.strictEqual((JSON.parse(textSecond) as Log).runs[0].results![1].suppressions!.length, 1);
+        assert.ok(textSecond.includes('{ "ruleId": "R2", "suppressions": [{'));
+    });
+
+    it('appends to existing suppressions', () => {
+        const text = JSON.stringify({ version: '2.1.0', runs: [{ results: [{ ruleId: 'R1', suppressions: [{ kind: 'inSource' }] }] }] }, null, 2);
+        const textEdited = appendSuppression(text, 0, 0, suppression);
+        assert.deepStrictEqual((JSON.parse(textEdited) as Log).runs[0].results![0].suppressions, [{ kind: 'inSource' }, suppression]);
+        assert.strictEqual(textEdited.split('\n').length, text.split('\n').length + 1);
+
+        const textEmpty = JSON.stringify({ version: '2.1.0', runs: [{ results: [{ ruleId: 'R1', suppressions: [] }] }] });
+        assert.deepStrictEqual((JSON.parse(appendSuppression(textEmpty, 0, 0, suppression)) as Log).runs[0].results![0].suppressions, [suppression]);
+    });
+
+    it('throws if the result is not found', () => {
+        assert.throws(() => appendSuppression('{ "runs": [] }', 0, 0, suppression));
+    });
+});
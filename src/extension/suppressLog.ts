@@ -0,0 +1,53 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/// <reference path="jsonSourceMap.d.ts" />
+import jsonMap from 'json-source-map';
+import { Suppression } from 'sarif';
+import '../shared/extension';
+
+type JsonPosition = { line: number, column: number, pos: number };
+type JsonPointer = { key?: JsonPosition, keyEnd?: JsonPosition, value: JsonPosition, valueEnd: JsonPosition };
+
+/**
+ * Appends a suppression to a result of a log, creating `result.suppressions` if needed. The text is edited minimally,
+ * thus the formatting of the rest of the log is unchanged, and the change reads well as a diff.
+ * @returns The edited text.
+ */
+export function appendSuppression(text: string, runIndex: number, resultIndex: number, suppression: Suppression): string {
+    const {pointers} = jsonMap.parse(text) as { pointers: Record<string, JsonPointer> };
+    const resultPointer = `/runs/${runIndex}/results/${resultIndex}`;
+    if (!pointers[resultPointer]) throw new Error(`Result ${resultIndex} of run ${runIndex} not found.`);
+
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+
+    // Inserts after the last member of the object or array, matching its line and indentation.
+    const insertMember = (pointer: string, member: string) => {
+        const container = pointers[pointer];
+        const members = Object.entries(pointers)
+            .filter(([key]) => key.startsWith(`${pointer}/`) && !key.slice(pointer.length + 1).includes('/'))
+            .map(([, member]) => member)
+            .sortBy(member => member.value.pos);
+        const last = members[members.length - 1] as JsonPointer | undefined;
+        if (!last) {
+            const pos = container.value.pos + 1; // Within the empty `{}` or `[]`.
+            return `${text.slice(0, pos)}${member}${text.slice(pos)}`;
+        }
+        const start = (last.key ?? last.value).pos;
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const indent = text.slice(lineStart, start);
+        const separator = container.value.line !== container.valueEnd.line && /^\s*$/.test(indent)
+            ? `,${eol}${indent}` // Multi-line.
+            : ', ';
+        const pos = last.valueEnd.pos;
+        return `${text.slice(0, pos)}${separator}${member}${text.slice(pos)}`;
+    };
+
+    const suppressionsPointer = `${resultPointer}/suppressions`;
+    const suppressions = pointers[suppressionsPointer];
+    if (suppressions) {
+        if (text[suppressions.value.pos] !== '[') throw new Error('Unexpected: `suppressions` is not an array.');
+        return insertMember(suppressionsPointer, JSON.stringify(suppression));
+    }
+    return insertMember(resultPointer, `"suppressions": [${JSON.stringify(suppression)}]`);
+}
@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+describe('suppressionComments', () => {
+    const { findSuppressionComment, formatSuppressionComment } = proxyquire('./suppressionComments', {
+        'vscode': { workspace: {} },
+    });
+
+    it('finds the first comment in scope', () => {
+        const comments = [
+            { tool: 'ESLint', template: '// eslint-disable-next-line ${ruleId}' },
+            { tool: 'CodeQL', rule: 'js/*', template: '// codeql[${ruleId}] ${justification}' },
+            { template: '// suppress ${ruleId}' },
+        ];
+        assert.strictEqual(findSuppressionComment(comments, 'CodeQL', 'js/xss'), comments[1]);
+        assert.strictEqual(findSuppressionComment(comments, 'CodeQL', 'py/sql-injection'), comments[2]);
+        assert.strictEqual(findSuppressionComment(comments, 'ESLint', 'no-eval'), comments[0]);
+        assert.strictEqual(findSuppressionComment(comments.slice(0, 2), 'Other', 'x'), undefined);
+    });
+
+    it('formats the template', () => {
+        assert.strictEqual(formatSuppressionComment('// codeql[${ruleId}] ${justification}', 'js/xss', 'Sanitized upstream.'), '// codeql[js/xss] Sanitized upstream.');
+        assert.strictEqual(formatSuppressionComment('// codeql[${ruleId}] ${justification}', 'js/xss', ''), '// codeql[js/xss]');
+    });
+});
@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { workspace } from 'vscode';
+
+export interface SuppressionComment {
+    template: string; // May reference `${ruleId}` and `${justification}`.
+    tool?: string; // Only applies to runs of this tool (`tool.driver.name`).
+    rule?: string; // Only applies to this rule id. Supports `*`, such as `js/*`.
+}
+
+const extensionName = 'sarif-viewer';
+export const suppressionCommentsConfigSection = 'suppressionComments';
+
+export function getSuppressionComments(): SuppressionComment[] {
+    return workspace.getConfiguration(extensionName).get<SuppressionComment[]>(suppressionCommentsConfigSection) ?? [];
+}
+
+// The first comment in scope, if any.
+export function findSuppressionComment(comments: SuppressionComment[], toolName?: string, ruleId?: string): SuppressionComment | undefined {
+    const isRuleMatch = (rule: string) => {
+        const source = rule.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return ruleId !== undefined && new RegExp(`^${source}$`).test(ruleId);
+    };
+    return comments
+        .filter(comment => !!comment.template) // Settings can be hand-edited.
+        .find(comment => (!comment.tool || comment.tool === toolName) && (!comment.rule || isRuleMatch(comment.rule)));
+}
+
+export function formatSuppressionComment(template: string, ruleId: string | undefined, justification: string): string {
+    return template
+        .replace(/\$\{ruleId\}/g, ruleId ?? '')
+        .replace(/\$\{justification\}/g, justification)
+        .trimEnd(); // Such as when the justification is empty.
+}
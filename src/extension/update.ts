@@ -24,7 +24,7 @@ interface GitHubRelease {
  * Retrieves @see HttpsProxyAgent information that may be setup in VSCode or in the process environment
  * to use for HTTP(s) requests.
  */
-function getHttpsProxyAgent() {
+export function getHttpsProxyAgent() {
     // See if we have an HTTP proxy set up in VSCode's proxy settings or
     // if it has been set up in the process environment.
     // NOTE: The upper and lower case versions are best attempt effort as enumerating through
@@ -0,0 +1,113 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Pre-2.1.0 logs are not typed.
+
+import assert from 'assert';
+import { Log } from 'sarif';
+import { augmentLog } from '../shared';
+import { upgradeLog } from './upgradeLog';
+
+describe('upgradeLog', () => {
+    it('upgrades 1.0.0', () => {
+        const log = {
+            version: '1.0.0',
+            runs: [{
+                tool: { name: 'Tool', version: '1.2.3' },
+                files: {
+                    'file:///src/a.c': { mimeType: 'text/x-c' },
+                },
+                rules: {
+                    'R1': { id: 'R1', name: 'Rule1', shortDescription: 'Short', messageFormats: { default: 'Found {0}.' }, defaultLevel: 'error' },
+                },
+                results: [{
+                    ruleId: 'R1',
+                    formattedRuleMessage: { formatId: 'default', arguments: ['x'] },
+                    locations: [{
+                        resultFile: { uri: 'file:///src/a.c', region: { startLine: 3, offset: 10, length: 2 } },
+                    }],
+                    codeFlows: [{
+                        locations: [{ step: 1, physicalLocation: { uri: 'file:///src/a.c', region: { startLine: 1 } }, message: 'Step' }],
+                    }],
+                    suppressionStates: ['suppressedExternally'],
+                    baselineState: 'existing',
+                }, {
+                    ruleId: 'R1',
+                    message: 'Passed.',
+                    level: 'pass',
+                    fixes: [{
+                        description: 'Fix',
+                        fileChanges: [{ uri: 'file:///src/a.c', replacements: [{ offset: 4, deletedLength: 1, insertedBytes: 'AA==' }] }],
+                    }],
+                }],
+            }],
+        } as any as Log;
+
+        assert.strictEqual(upgradeLog(log), true);
+        assert.strictEqual(log.version, '2.1.0');
+
+        const [run] = log.runs;
+        assert.strictEqual(run.tool.driver.name, 'Tool');
+        assert.deepStrictEqual(run.tool.driver.rules?.[0].messageStrings, { default: { text: 'Found {0}.' } });
+        assert.deepStrictEqual(run.tool.driver.rules?.[0].defaultConfiguration, { level: 'error' });
+        assert.strictEqual(run.artifacts?.[0].location?.uri, 'file:///src/a.c');
+
+        const [result1, result2] = run.results!;
+        assert.deepStrictEqual(result1.message, { id: 'default', arguments: ['x'] });
+        assert.strictEqual(result1.ruleIndex, 0);
+        assert.deepStrictEqual(JSON.parse(JSON.stringify(result1.locations?.[0].physicalLocation)), { // Drop undefined members.
+            artifactLocation: { uri: 'file:///src/a.c' },
+            region: { startLine: 3, charOffset: 10, charLength: 2 },
+        });
+        assert.strictEqual(result1.codeFlows?.[0].threadFlows[0].locations[0].location?.message?.text, 'Step');
+        assert.deepStrictEqual(result1.suppressions, [{ kind: 'external' }]);
+        assert.strictEqual(result1.baselineState, 'unchanged');
+
+        assert.strictEqual(result2.kind, 'pass');
+        assert.strictEqual(result2.level, 'none');
+        assert.deepStrictEqual(result2.fixes?.[0].artifactChanges[0].replacements[0], {
+            deletedRegion: { byteOffset: 4, byteLength: 1 },
+            insertedContent: { binary: 'AA==' },
+        });
+
+        augmentLog(log);
+        assert.strictEqual(result1._message, 'Found x.');
+        assert.strictEqual(result1._uri, 'file:///src/a.c');
+    });
+
+    it('upgrades 2.0.0', () => {
+        const log = {
+            version: '2.0.0-csd.2.beta.2019-01-24',
+            runs: [{
+                tool: { name: 'Tool' },
+                originalUriBaseIds: { SRCROOT: 'file:///build/' },
+                resources: {
+                    rules: {
+                        'R1': { id: 'R1', messageStrings: { default: 'Found.' }, configuration: { defaultLevel: 'warning' } },
+                    },
+                },
+                results: [{
+                    ruleId: 'R1',
+                    message: { messageId: 'default' },
+                    locations: [{
+                        physicalLocation: { fileLocation: { uri: 'a.c', uriBaseId: 'SRCROOT' }, region: { startLine: 1 } },
+                    }],
+                }],
+            }],
+        } as any as Log;
+
+        assert.strictEqual(upgradeLog(log), true);
+        const [run] = log.runs;
+        assert.deepStrictEqual(run.originalUriBaseIds, { SRCROOT: { uri: 'file:///build/' } });
+
+        augmentLog(log);
+        const [result] = run.results!;
+        assert.strictEqual(result._message, 'Found.');
+        assert.strictEqual(result._uri, 'a.c');
+        assert.strictEqual(result.level, 'warning');
+    });
+
+    it('ignores other versions', () => {
+        assert.strictEqual(upgradeLog({ version: '2.1.0', runs: [] } as any as Log), false);
+    });
+});
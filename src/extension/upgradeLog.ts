@@ -0,0 +1,296 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */ // Pre-2.1.0 shapes are not typed.
+
+import { Log } from 'sarif';
+
+// The 2.0.0 drafts (such as `2.0.0-csd.2.beta.2019-01-24`) changed shape several times. Rather than
+// tracking each draft, the helpers below accept any of the shapes (including 1.0.0) where they overlap.
+
+function toArray(value: any, keyName: string): any[] | undefined {
+    if (!value) return undefined;
+    if (Array.isArray(value)) return value;
+    // Dictionaries keyed by `keyName`.
+    return Object.entries(value).map(([key, item]: [string, any]) => ({ ...item, [keyName]: item?.[keyName] ?? key }));
+}
+
+function upgradeMessage(message: any): any {
+    if (message === undefined || message === null) return undefined;
+    if (typeof message === 'string') return { text: message };
+    const { messageId, richText, richMessageId, ...rest } = message;
+    return {
+        ...rest,
+        ...messageId !== undefined && { id: messageId },
+        ...richText !== undefined && { markdown: richText },
+    };
+}
+
+function upgradeMultiformatMessageString(value: any): any {
+    return typeof value === 'string' ? { text: value } : upgradeMessage(value);
+}
+
+function upgradeArtifactLocation(location: any): any {
+    if (!location) return undefined;
+    const { fileIndex, ...rest } = location;
+    return {
+        ...rest,
+        ...fileIndex !== undefined && { index: fileIndex },
+    };
+}
+
+function upgradeRegion(region: any): any {
+    if (!region) return undefined;
+    const { offset, length, snippet, message, ...rest } = region;
+    return {
+        ...rest,
+        ...offset !== undefined && { charOffset: offset },
+        ...length !== undefined && { charLength: length },
+        ...snippet !== undefined && { snippet: typeof snippet === 'string' ? { text: snippet } : snippet },
+        ...message !== undefined && { message: upgradeMessage(message) },
+    };
+}
+
+function upgradePhysicalLocation(physicalLocation: any): any {
+    if (!physicalLocation) return undefined;
+    const { uri, uriBaseId, fileLocation, artifactLocation, region, contextRegion, ...rest } = physicalLocation;
+    return {
+        ...rest,
+        // 1.0.0 physical locations hold the uri directly.
+        artifactLocation: upgradeArtifactLocation(artifactLocation ?? fileLocation ?? (uri !== undefined ? { uri, uriBaseId } : undefined)),
+        region: upgradeRegion(region),
+        contextRegion: upgradeRegion(contextRegion),
+    };
+}
+
+function upgradeLocation(location: any): any {
+    if (!location) return undefined;
+    const {
+        resultFile, analysisTarget, // 1.0.0
+        physicalLocation, message, annotations,
+        fullyQualifiedLogicalName, logicalLocationKey, decoratedName, logicalLocationIndex,
+        ...rest } = location;
+    const logicalName = fullyQualifiedLogicalName ?? logicalLocationKey;
+    return {
+        ...rest,
+        physicalLocation: upgradePhysicalLocation(physicalLocation ?? resultFile ?? analysisTarget),
+        message: upgradeMessage(message),
+        ...logicalName !== undefined && { logicalLocations: [{ fullyQualifiedName: logicalName, decoratedName, index: logicalLocationIndex }] },
+        ...annotations !== undefined && { annotations: annotations.map(upgradeRegion) },
+    };
+}
+
+function upgradeThreadFlowLocation(threadFlowLocation: any): any {
+    const { location, physicalLocation, message, step, ...rest } = threadFlowLocation;
+    return {
+        ...rest,
+        ...step !== undefined && { executionOrder: step },
+        // 1.0.0 annotated code locations are flat.
+        location: location
+            ? upgradeLocation(location)
+            : { physicalLocation: upgradePhysicalLocation(physicalLocation), message: upgradeMessage(message) },
+    };
+}
+
+function upgradeCodeFlow(codeFlow: any): any {
+    const { message, locations, threadFlows, ...rest } = codeFlow;
+    return {
+        ...rest,
+        message: upgradeMessage(message),
+        threadFlows: (threadFlows ?? [{ locations }]).map((threadFlow: any) => ({
+            ...threadFlow,
+            message: upgradeMessage(threadFlow.message),
+            locations: threadFlow.locations?.map(upgradeThreadFlowLocation) ?? [],
+        })),
+    };
+}
+
+function upgradeStack(stack: any): any {
+    return {
+        ...stack,
+        message: upgradeMessage(stack.message),
+        frames: stack.frames?.map((frame: any) => {
+            const { location, uri, uriBaseId, line, column, message, fullyQualifiedLogicalName, ...rest } = frame;
+            return {
+                ...rest,
+                // 1.0.0 stack frames are flat.
+                location: location
+                    ? upgradeLocation(location)
+                    : upgradeLocation({
+                        physicalLocation: uri !== undefined ? { uri, uriBaseId, region: { startLine: line, startColumn: column } } : undefined,
+                        message,
+                        fullyQualifiedLogicalName,
+                    }),
+            };
+        }) ?? [],
+    };
+}
+
+function upgradeFix(fix: any): any {
+    const { description, fileChanges, artifactChanges, ...rest } = fix;
+    return {
+        ...rest,
+        description: upgradeMessage(description),
+        artifactChanges: (artifactChanges ?? fileChanges ?? []).map((change: any) => {
+            const { uri, uriBaseId, fileLocation, artifactLocation, replacements } = change;
+            return {
+                artifactLocation: upgradeArtifactLocation(artifactLocation ?? fileLocation ?? { uri, uriBaseId }),
+                replacements: replacements?.map((replacement: any) => {
+                    // 1.0.0 replacements are byte-based.
+                    const { offset, deletedLength, insertedBytes, deletedRegion, insertedContent } = replacement;
+                    const content = insertedContent ?? (insertedBytes !== undefined ? { binary: insertedBytes } : undefined);
+                    return {
+                        deletedRegion: deletedRegion
+                            ? upgradeRegion(deletedRegion)
+                            : { byteOffset: offset, byteLength: deletedLength ?? 0 },
+                        ...content && { insertedContent: content },
+                    };
+                }) ?? [],
+            };
+        }),
+    };
+}
+
+function upgradeRule(rule: any): any {
+    const { name, shortDescription, fullDescription, help, messageFormats, messageStrings, richMessageStrings,
+        configuration, defaultLevel, ...rest } = rule;
+    const strings = messageStrings ?? messageFormats; // 1.0.0 calls them formats.
+    const isConfigurationObject = typeof configuration === 'object' && configuration !== null;
+    const level = (isConfigurationObject ? configuration.defaultLevel : undefined) ?? defaultLevel;
+    const enabled = isConfigurationObject
+        ? configuration.enabled
+        : configuration && configuration !== 'disabled'; // 1.0.0 configuration is 'enabled' or 'disabled'.
+    return {
+        ...rest,
+        name: typeof name === 'object' ? name?.text : name,
+        shortDescription: upgradeMultiformatMessageString(shortDescription),
+        fullDescription: upgradeMultiformatMessageString(fullDescription),
+        help: upgradeMultiformatMessageString(help),
+        ...strings && {
+            messageStrings: Object.fromEntries(Object.entries(strings)
+                .map(([id, text]) => [id, upgradeMultiformatMessageString(text)])),
+        },
+        ...(level !== undefined || enabled !== undefined) && {
+            defaultConfiguration: {
+                ...level !== undefined && level !== 'default' && { level },
+                ...enabled !== undefined && { enabled },
+            },
+        },
+    };
+}
+
+function upgradeResult(result: any, ruleIndexes: Map<string, number>): any {
+    const {
+        message, formattedRuleMessage, // 1.0.0
+        ruleKey, ruleIndex, level, suppressionStates, baselineState,
+        locations, relatedLocations, codeFlows, stacks, fixes, snippet,
+        ...rest } = result;
+
+    const upgraded = {
+        ...rest,
+        message: {
+            ...upgradeMessage(message),
+            ...formattedRuleMessage && { id: formattedRuleMessage.formatId, arguments: formattedRuleMessage.arguments },
+        },
+        ruleIndex: ruleIndex ?? ruleIndexes.get(ruleKey ?? result.ruleId),
+        locations: locations?.map(upgradeLocation),
+        relatedLocations: relatedLocations?.map(upgradeLocation),
+        codeFlows: codeFlows?.map(upgradeCodeFlow),
+        stacks: stacks?.map(upgradeStack),
+        fixes: fixes?.map(upgradeFix),
+        ...suppressionStates && {
+            suppressions: (suppressionStates as string[]).map(state => ({
+                kind: state === 'suppressedExternally' ? 'external' : 'inSource',
+            })),
+        },
+        ...baselineState && { baselineState: baselineState === 'existing' ? 'unchanged' : baselineState },
+    };
+
+    // Pre-2.1.0 levels double as kinds.
+    switch (level) {
+        case 'pass':
+        case 'notApplicable':
+        case 'open':
+        case 'informational':
+        case 'review':
+            upgraded.kind = level;
+            upgraded.level = 'none';
+            break;
+        case 'error':
+        case 'warning':
+        case 'note':
+        case 'none':
+            upgraded.level = level;
+            break;
+    }
+
+    // 1.0.0 has a single snippet per result.
+    const region = upgraded.locations?.[0]?.physicalLocation?.region;
+    if (snippet !== undefined && region && !region.snippet) region.snippet = { text: snippet };
+
+    return upgraded;
+}
+
+function upgradeRun(run: any): any {
+    const { tool, resources, rules, files, artifacts, logicalLocations, originalUriBaseIds, versionControlProvenance, results, invocation, ...rest } = run;
+
+    // Rules moved from `run.rules` (1.0.0) to `run.resources.rules` (2.0.0) to `run.tool.driver.rules` (2.1.0).
+    // Results referenced dictionary-based rules by key (`ruleKey` or `ruleId`), and array-based rules by `ruleIndex`.
+    const legacyRules = resources?.rules ?? rules;
+    const ruleArray = toArray(tool?.driver?.rules ?? legacyRules, 'id')?.map(upgradeRule);
+    const ruleIndexes = new Map<string, number>();
+    if (legacyRules && !Array.isArray(legacyRules)) {
+        Object.keys(legacyRules).forEach((key, index) => ruleIndexes.set(key, index));
+    }
+
+    const { driver, extensions, ...toolRest } = tool ?? {};
+    const { name, fullName, version, semanticVersion, language } = toolRest;
+    return {
+        ...rest,
+        tool: {
+            driver: {
+                ...driver ?? { name: name ?? '', fullName, version, semanticVersion, language },
+                rules: ruleArray,
+            },
+            ...extensions && { extensions },
+        },
+        ...invocation && { invocations: [invocation] },
+        logicalLocations: toArray(logicalLocations, 'fullyQualifiedName'),
+        artifacts: toArray(artifacts ?? files, 'uri')?.map(artifact => {
+            const { fileLocation, location, uri, contents, parentKey, ...artifactRest } = artifact;
+            return {
+                ...artifactRest,
+                location: upgradeArtifactLocation(location ?? fileLocation ?? { uri }),
+                ...contents !== undefined && {
+                    contents: typeof contents === 'string' ? { binary: contents } : contents, // 1.0.0 contents are Base64.
+                },
+            };
+        }),
+        ...originalUriBaseIds && {
+            originalUriBaseIds: Object.fromEntries(Object.entries(originalUriBaseIds)
+                .map(([id, base]) => [id, typeof base === 'string' ? { uri: base } : upgradeArtifactLocation(base)])),
+        },
+        ...versionControlProvenance && {
+            versionControlProvenance: versionControlProvenance.map(({ uri, repositoryUri, ...details }: any) => ({
+                ...details,
+                repositoryUri: repositoryUri ?? uri,
+            })),
+        },
+        results: results?.map((result: any) => upgradeResult(result, ruleIndexes)),
+    };
+}
+
+/**
+ * Upgrades SARIF 1.0.0 and 2.0.0 (including the csd.2 drafts) logs to 2.1.0 in memory.
+ * Only members the viewer makes use of are upgraded. The order of runs and results is preserved.
+ * @returns Success of the upgrade.
+ */
+export function upgradeLog(log: Log): boolean {
+    const version = (log.version as string | undefined) ?? '';
+    if (version !== '1.0.0' && !version.startsWith('2.0.0')) return false;
+
+    log.version = '2.1.0';
+    log.$schema = 'https://schemastore.azurewebsites.net/schemas/json/sarif-2.1.0-rtm.5.json';
+    log.runs = log.runs?.map(upgradeRun);
+    return true;
+}
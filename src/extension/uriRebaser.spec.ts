@@ -193,4 +193,160 @@ describe('baser', () => {
         const rebasedArtifactUri = await rebaser.translateArtifactToLocal(artifactUri);
         assert.strictEqual(rebasedArtifactUri.toString(), localUri);
     });
+
+    it('Root Paths - Typical', async () => {
+        // Spaces inserted to emphasize common segments.
+        const artifactUri = 'file:///agent/_work/1/s  /src/file1.txt'.replace(/ /g, '');
+        const localUri    = 'file:///projects/project /src/file1.txt'.replace(/ /g, '');
+
+        const { UriRebaser } = proxyquire('./uriRebaser', {
+            'vscode': {
+                '@global': true,
+                ...mockVscode,
+                workspace: {
+                    ...mockVscode.workspace,
+                    getConfiguration: () => ({ get: (section: string) => section === 'rootpaths' ? ['/projects/project'] : undefined }),
+                },
+            },
+            './platformUriNormalize': platformUriNormalize,
+            './uriExists': (uri: string) => uri.toString() === localUri,
+        });
+        const rebaser = new UriRebaser({ distinctArtifactNames: new Map() });
+        const rebasedArtifactUri = await rebaser.translateArtifactToLocal(artifactUri);
+        assert.strictEqual(rebasedArtifactUri.toString(), localUri);
+    });
+
+    it('Root Paths - Variables', async () => {
+        const artifactUri = 'src/file1.txt';
+        const localUri    = 'file:///projects/project/src/file1.txt';
+
+        const workspace = {
+            ...mockVscode.workspace,
+            getConfiguration: () => ({ get: (section: string) => section === 'rootpaths' ? ['${workspaceFolder:project}'] : undefined }),
+            workspaceFolders: [
+                { name: 'other', uri: Uri.file('/projects/other') },
+                { name: 'project', uri: Uri.file('/projects/project') },
+            ],
+        };
+        const { UriRebaser } = proxyquire('./uriRebaser', {
+            'vscode': {
+                '@global': true,
+                ...mockVscode,
+                workspace,
+            },
+            './platformUriNormalize': platformUriNormalize,
+            './resolveVariables': proxyquire('./resolveVariables', { 'vscode': { workspace } }),
+            './uriExists': (uri: string) => uri.toString() === localUri,
+        });
+        const rebaser = new UriRebaser({ distinctArtifactNames: new Map() });
+        const rebasedArtifactUri = await rebaser.translateArtifactToLocal(artifactUri);
+        assert.strictEqual(rebasedArtifactUri.toString(), localUri);
+    });
+
+    it('Path Mappings - Scoped to tool', async () => {
+        const artifactUri = 'file:///home/runner/work/repo/src/file1.txt';
+        const localUri    = 'file:///projects/project/src/file1.txt';
+
+        const pathMappings = [
+            { from: '/home/runner/work/repo/', to: '/projects/other/', tool: 'OtherTool' },
+            { from: '^/home/runner/work/[^/]+/(.*)', to: '/projects/project/$1', tool: 'Tool' },
+        ];
+        const { UriRebaser } = proxyquire('./uriRebaser', {
+            'vscode': {
+                '@global': true,
+                ...mockVscode,
+                workspace: {
+                    ...mockVscode.workspace,
+                    getConfiguration: () => ({ get: (section: string) => section === 'pathMappings' ? pathMappings : undefined }),
+                },
+            },
+            './platformUriNormalize': platformUriNormalize,
+            './uriExists': (uri: string) => uri.toString() === localUri,
+        });
+        const rebaser = new UriRebaser({ distinctArtifactNames: new Map() });
+        const origin = { _log: { _uri: 'file:///logs/log.sarif' }, _run: { tool: { driver: { name: 'Tool' } } } };
+        const rebasedArtifactUri = await rebaser.translateArtifactToLocal(artifactUri, undefined, undefined, origin);
+        assert.strictEqual(rebasedArtifactUri.toString(), localUri);
+    });
+
+    it('Known Bases - Persisted', async () => {
+        const artifactUri = 'file:///d/e/f/x/y/a/b.c';
+        const localUri    = 'file:///x/y/a/b.c';
+
+        const state = new Map<string, unknown>([
+            ['basesArtifactToLocal', [{ artifactBase: 'file:///d/e/f/', localBase: 'file:///' }]],
+        ]);
+        const workspaceState = {
+            get: (key: string, defaultValue: unknown) => state.get(key) ?? defaultValue,
+            update: async (key: string, value: unknown) => { state.set(key, value); },
+        };
+        mockVscodeTestFacing.showOpenDialogResult = undefined; // Any "Locate..." is cancelled.
+        const { UriRebaser } = proxyquire('./uriRebaser', {
+            'vscode': {
+                '@global': true,
+                ...mockVscode,
+            },
+            './platformUriNormalize': platformUriNormalize,
+            './uriExists': (uri: string) => uri.toString() === localUri,
+        });
+        const rebaser = new UriRebaser({ distinctArtifactNames: new Map() }, workspaceState);
+        assert.strictEqual((await rebaser.translateArtifactToLocal(artifactUri)).toString(), localUri);
+
+        rebaser.forgetBases(rebaser.learnedBases);
+        assert.deepStrictEqual(state.get('basesArtifactToLocal'), []);
+        assert.strictEqual(await rebaser.translateArtifactToLocal(artifactUri), undefined);
+    });
+
+    describe('New Artifacts', () => {
+        const workspaceFolders = [
+            { name: 'a', uri: Uri.file('/projects/a') },
+            { name: 'b', uri: Uri.file('/projects/b') },
+        ];
+        const createRebaser = (existing: string[], learnedBases = [] as { artifactBase: string, localBase: string }[]) => {
+            const { UriRebaser } = proxyquire('./uriRebaser', {
+                'vscode': {
+                    '@global': true,
+                    ...mockVscode,
+                    workspace: { ...mockVscode.workspace, workspaceFolders },
+                },
+                './platformUriNormalize': platformUriNormalize,
+                './uriExists': (uri: Uri) => existing.includes(uri.toString()),
+            });
+            const workspaceState = {
+                get: () => learnedBases,
+                update: async () => undefined,
+            };
+            return new UriRebaser({ distinctArtifactNames: new Map() }, workspaceState);
+        };
+
+        it('translates existing artifacts as usual', async () => {
+            const rebaser = createRebaser(['file:///projects/b/src/a.c']);
+            assert.strictEqual((await rebaser.translateNewArtifactToLocal('src/a.c'))?.toString(), 'file:///projects/b/src/a.c');
+        });
+
+        it('places relative artifacts within the folder where their parent exists', async () => {
+            const rebaser = createRebaser(['file:///projects/a', 'file:///projects/b', 'file:///projects/b/src']);
+            assert.strictEqual((await rebaser.translateNewArtifactToLocal('src/new.c'))?.toString(), 'file:///projects/b/src/new.c');
+        });
+
+        it('places relative artifacts without an existing parent within the first base', async () => {
+            const rebaser = createRebaser(['file:///projects/a', 'file:///projects/b', 'file:///other']);
+            assert.strictEqual((await rebaser.translateNewArtifactToLocal('src/new.c'))?.toString(), 'file:///projects/a/src/new.c');
+            assert.strictEqual((await rebaser.translateNewArtifactToLocal('new.c', 'file:///other'))?.toString(), 'file:///other/new.c');
+        });
+
+        it('rebases the parent of absolute artifacts via the learned bases', async () => {
+            const rebaser = createRebaser(['file:///projects/a/src'], [
+                { artifactBase: 'file:///home/runner/work/repo/', localBase: 'file:///projects/a/' },
+            ]);
+            const localUri = await rebaser.translateNewArtifactToLocal('file:///home/runner/work/repo/src/new.c');
+            assert.strictEqual(localUri?.toString(), 'file:///projects/a/src/new.c');
+        });
+
+        it('does not assume absolute artifacts are local', async () => {
+            const rebaser = createRebaser(['file:///projects/a', 'file:///projects/b']);
+            assert.strictEqual(await rebaser.translateNewArtifactToLocal('file:///home/runner/work/repo/src/new.c'), undefined);
+            assert.strictEqual(await rebaser.translateNewArtifactToLocal('file:///new.c'), undefined);
+        });
+    });
 });
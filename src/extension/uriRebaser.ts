@@ -1,17 +1,19 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
-import { Uri, window, workspace, ConfigurationTarget } from 'vscode';
+import { Memento, Uri, window, workspace, ConfigurationTarget } from 'vscode';
 import '../shared/extension';
 import { Store } from './store';
 import uriExists from './uriExists';
-import { VersionControlDetails } from 'sarif';
+import { Result, VersionControlDetails } from 'sarif';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import fetch from 'node-fetch';
 import platformUriNormalize from './platformUriNormalize';
 import platform from './platform';
+import { resolveVariables } from './resolveVariables';
+import { getPathMappings, mapPath } from './pathMappings';
 
 const workspaceDistinctFilenameCache: Map<string, Uri | undefined> = new Map();
 
@@ -60,13 +62,35 @@ workspace.onDidDeleteFiles(async (event) => {
     }
 });
 
+function isSameBase(a: LearnedBase, b: LearnedBase) {
+    return a.artifactBase === b.artifactBase && a.log === b.log && a.tool === b.tool;
+}
+
+// Settings may hold either URIs or (more commonly) file system paths.
+function parsePathOrUri(value: string): Uri {
+    return /^[a-z][\w+.-]+:\/\//i.test(value)
+        ? Uri.parse(value, true)
+        : Uri.file(value);
+}
+
+export interface LearnedBase {
+    artifactBase: string;
+    localBase: string;
+    log?: string; // URI of the log the base was learned from.
+    tool?: string; // `tool.driver.name` of the run the base was learned from.
+}
+
+const basesStateKey = 'basesArtifactToLocal';
+
 export class UriRebaser {
     constructor(
-        private readonly store: Pick<Store, 'distinctArtifactNames'>) {
+        private readonly store: Pick<Store, 'distinctArtifactNames'>,
+        private readonly workspaceState?: Memento) {
+        this.basesArtifactToLocal = workspaceState?.get<LearnedBase[]>(basesStateKey, []) ?? [];
     }
 
-    private basesArtifactToLocal = new Map<string, string>() // <artifactUri, localUri>
-    private updateBases(artifact: string, local: Uri) {
+    private basesArtifactToLocal: LearnedBase[]
+    private updateBases(artifact: string, local: Uri, origin?: Pick<Result, '_log' | '_run'>) {
         const localPath = local.toString();
         let commonLength = 0;
         while (
@@ -75,7 +99,32 @@ export class UriRebaser {
             artifact[artifact.length - commonLength - 1] === localPath[localPath.length - commonLength - 1]) {
             commonLength++;
         }
-        this.basesArtifactToLocal.set(artifact.slice(0, -commonLength), localPath.slice(0, -commonLength));
+        const base: LearnedBase = {
+            artifactBase: artifact.slice(0, -commonLength),
+            localBase: localPath.slice(0, -commonLength),
+            ...origin && { log: origin._log._uri, tool: origin._run.tool.driver.name },
+        };
+        this.basesArtifactToLocal = [
+            ...this.basesArtifactToLocal.filter(existing => !isSameBase(existing, base)),
+            base,
+        ];
+        void this.workspaceState?.update(basesStateKey, this.basesArtifactToLocal);
+    }
+
+    public get learnedBases(): readonly LearnedBase[] {
+        return this.basesArtifactToLocal;
+    }
+
+    public forgetBases(bases: readonly LearnedBase[]) {
+        this.basesArtifactToLocal = this.basesArtifactToLocal.filter(existing => !bases.some(base => isSameBase(existing, base)));
+        void this.workspaceState?.update(basesStateKey, this.basesArtifactToLocal);
+
+        // Otherwise previously validated URIs would continue to use the forgotten bases.
+        for (const [artifact, local] of this.validatedUrisArtifactToLocal) {
+            if (!bases.some(base => artifact.startsWith(base.artifactBase))) continue;
+            this.validatedUrisArtifactToLocal.delete(artifact);
+            this.validatedUrisLocalToArtifact.delete(local.toString());
+        }
     }
 
     private validatedUrisArtifactToLocal = new Map<string, Uri>()
@@ -116,97 +165,149 @@ export class UriRebaser {
     }
 
     private extensionName = 'sarif-viewer'
+    private rootPathsConfigSection = 'rootpaths';
+
+    // Read on demand (rather than cached) so that changes to the setting take effect immediately.
+    private get rootPaths(): Uri[] {
+        const rootPaths = workspace.getConfiguration(this.extensionName).get<string[]>(this.rootPathsConfigSection) ?? [];
+        return rootPaths.map(rootPath => parsePathOrUri(resolveVariables(rootPath)));
+    }
+
     private trustedSourceSitesConfigSection = 'trustedSourceSites';
     private trustedSites = workspace.getConfiguration(this.extensionName).get<string[]>(this.trustedSourceSitesConfigSection, []);
     private activeInfoMessages = new Set<string>() // Prevent repeat message animations when arrowing through many results with the same uri.
-    public async translateArtifactToLocal(artifactUri: string, uriBase: string | undefined, versionControlProvenance?: VersionControlDetails[]): Promise<Uri | undefined> { // Retval is validated.
+
+    /**
+     * Translates without user interaction (no "Locate..." nor download prompts).
+     * @returns A validated local uri, or undefined if none is found.
+     */
+    public async tryTranslateArtifactToLocal(artifactUri: string, uriBase: string | undefined, origin?: Pick<Result, '_log' | '_run'>): Promise<Uri | undefined> {
         // Sarif-scheme URIs are owned/created by us, so we know they exist.
         if (artifactUri.startsWith('sarif://')) return Uri.parse(artifactUri, true);
 
-        const validateUri = async (): Promise<Uri | undefined> => {
-            // Cache
-            const artifact = this.validatedUrisArtifactToLocal.get(artifactUri);
-            if (artifact)
-                return artifact;
-
-            const rxUriScheme = /^([^:/?#]+?):/;
-            const isRelative = !rxUriScheme.test(artifactUri);
-            if (isRelative) {
-                // §3.4.4:
-                // If the end user has configured the SARIF consumer with a value for the uriBaseId...
-                // then the consumer SHALL use the configured value
-                for (const uriBase of this.uriBases) {
-                    const localUri = Uri.joinPath(Uri.parse(uriBase, true), artifactUri);
-                    if (await uriExists(localUri)) {
-                        this.updateValidatedUris(artifactUri, localUri);
-                        return localUri;
-                    }
-                }
-
-                // If uriBaseId is not yet resolved and theRun.originalUriBaseIds (§3.14.14) is present,
-                // the consumer SHALL attempt to resolve the uriBaseId from the information in originalUriBaseIds
-                if (uriBase) {
-                    const localUri = Uri.joinPath(Uri.parse(uriBase, true), artifactUri);
-                    if (await uriExists(localUri)) {
-                        this.updateValidatedUris(artifactUri, localUri);
-                        return localUri;
-                    }
+        // Cache
+        const artifact = this.validatedUrisArtifactToLocal.get(artifactUri);
+        if (artifact)
+            return artifact;
+
+        const rxUriScheme = /^([^:/?#]+?):/;
+        const isRelative = !rxUriScheme.test(artifactUri);
+        if (isRelative) {
+            // §3.4.4:
+            // If the end user has configured the SARIF consumer with a value for the uriBaseId...
+            // then the consumer SHALL use the configured value
+            for (const uriBase of this.uriBases) {
+                const localUri = Uri.joinPath(Uri.parse(uriBase, true), artifactUri);
+                if (await uriExists(localUri)) {
+                    this.updateValidatedUris(artifactUri, localUri);
+                    return localUri;
                 }
+            }
 
-                // If uriBaseId is not yet resolved,
-                // the consumer MAY use other information or heuristics to locate the artifact.
-
-                // File System Exist with Workspace prefixed
-                const workspaceUri = workspace.workspaceFolders?.[0]?.uri; // TODO: Handle multiple workspaces.
-                if (workspaceUri) {
-                    const localUri = Uri.joinPath(workspaceUri, artifactUri);
-                    if (await uriExists(localUri)) {
-                        this.updateValidatedUris(artifactUri, localUri);
-                        return localUri;
-                    }
-                }
-            } else {
-                // File System Exist
-                const localUri = Uri.parse(artifactUri);
+            // If uriBaseId is not yet resolved and theRun.originalUriBaseIds (§3.14.14) is present,
+            // the consumer SHALL attempt to resolve the uriBaseId from the information in originalUriBaseIds
+            if (uriBase) {
+                const localUri = Uri.joinPath(Uri.parse(uriBase, true), artifactUri);
                 if (await uriExists(localUri)) {
                     this.updateValidatedUris(artifactUri, localUri);
                     return localUri;
                 }
             }
 
-            // These strategies make sense regardless if the URI is relative or absolute
+            // If uriBaseId is not yet resolved,
+            // the consumer MAY use other information or heuristics to locate the artifact.
 
-            // Known Bases
-            for (const [artifactBase, localBase] of this.basesArtifactToLocal) {
-                if (!artifactUri.startsWith(artifactBase)) continue; // Just let it fall through?
-                const localUri = Uri.parse(artifactUri.replace(artifactBase, localBase), false);
+            // File System Exist with Workspace prefixed
+            for (const { uri: workspaceUri } of workspace.workspaceFolders ?? []) {
+                const localUri = Uri.joinPath(workspaceUri, artifactUri);
                 if (await uriExists(localUri)) {
                     this.updateValidatedUris(artifactUri, localUri);
                     return localUri;
                 }
             }
+        } else {
+            // File System Exist
+            const localUri = Uri.parse(artifactUri);
+            if (await uriExists(localUri)) {
+                this.updateValidatedUris(artifactUri, localUri);
+                return localUri;
+            }
+        }
+
+        // These strategies make sense regardless if the URI is relative or absolute
 
-            // Distinct Project Items
-            const {file} = artifactUri;
-            const distinctFilename = await workspaceHasDistinctFilename(file);
-            if (distinctFilename && this.store.distinctArtifactNames.has(file)) {
-                const localUri = distinctFilename;
+        const artifactPath = isRelative
+            ? Uri.parse(`file:///${artifactUri.replace(/^\/+/, '')}`).path.replace(/^\//, '')
+            : Uri.parse(artifactUri).path;
+
+        // Path Mappings
+        const toolName = origin?._run.tool.driver.name;
+        const logPath = origin && Uri.parse(origin._log._uri, false).path;
+        for (const mappedPath of mapPath(artifactPath, getPathMappings(), toolName, logPath)) {
+            const localUri = parsePathOrUri(resolveVariables(mappedPath));
+            if (await uriExists(localUri)) {
                 this.updateValidatedUris(artifactUri, localUri);
-                this.updateBases(artifactUri, localUri);
                 return localUri;
             }
+        }
+
+        // Root Paths
+        // Each root path is joined with successively shorter trailing portions of the artifact path.
+        // Example: `file:///agent/_work/1/s/src/a.c` with root path `/repo` tries `/repo/agent/_work/1/s/src/a.c`,
+        // then `/repo/_work/1/s/src/a.c` and so on until `/repo/a.c`.
+        const rootPaths = this.rootPaths;
+        if (rootPaths.length) {
+            const segments = artifactPath.split('/').filter(segment => segment);
+            for (const rootPath of rootPaths) {
+                for (let i = 0; i < segments.length; i++) {
+                    const localUri = Uri.joinPath(rootPath, ...segments.slice(i));
+                    if (await uriExists(localUri)) {
+                        this.updateValidatedUris(artifactUri, localUri);
+                        this.updateBases(artifactUri, localUri, origin);
+                        return localUri;
+                    }
+                }
+            }
+        }
 
-            // Open Docs
-            for (const doc of workspace.textDocuments) {
-                const localUri = doc.uri;
-                if (localUri.toString().file !== artifactUri.file) continue;
+        // Known Bases
+        // Bases learned from the same log, then the same tool, are preferred.
+        const scoreBase = (base: LearnedBase) => (base.log === origin?._log._uri ? 2 : 0) + (base.tool === toolName ? 1 : 0);
+        const bases = [...this.basesArtifactToLocal].sort((a, b) => scoreBase(b) - scoreBase(a));
+        for (const { artifactBase, localBase } of bases) {
+            if (!artifactUri.startsWith(artifactBase)) continue; // Just let it fall through?
+            const localUri = Uri.parse(artifactUri.replace(artifactBase, localBase), false);
+            if (await uriExists(localUri)) {
                 this.updateValidatedUris(artifactUri, localUri);
-                this.updateBases(artifactUri, localUri);
                 return localUri;
             }
+        }
 
-            return undefined; // Signals inability to rebase.
-        };
+        // Distinct Project Items
+        const {file} = artifactUri;
+        const distinctFilename = await workspaceHasDistinctFilename(file);
+        if (distinctFilename && this.store.distinctArtifactNames.has(file)) {
+            const localUri = distinctFilename;
+            this.updateValidatedUris(artifactUri, localUri);
+            this.updateBases(artifactUri, localUri, origin);
+            return localUri;
+        }
+
+        // Open Docs
+        for (const doc of workspace.textDocuments) {
+            const localUri = doc.uri;
+            if (localUri.toString().file !== artifactUri.file) continue;
+            this.updateValidatedUris(artifactUri, localUri);
+            this.updateBases(artifactUri, localUri, origin);
+            return localUri;
+        }
+
+        return undefined; // Signals inability to rebase.
+    }
+
+    // `origin` scopes the `sarif-viewer.pathMappings` that apply.
+    public async translateArtifactToLocal(artifactUri: string, uriBase: string | undefined, versionControlProvenance?: VersionControlDetails[], origin?: Pick<Result, '_log' | '_run'>): Promise<Uri | undefined> { // Retval is validated.
+        const validateUri = () => this.tryTranslateArtifactToLocal(artifactUri, uriBase, origin);
 
         let validatedUri = await validateUri();
         if (!validatedUri && !this.activeInfoMessages.has(artifactUri)) {
@@ -269,7 +370,7 @@ export class UriRebaser {
                             await mkdirRecursive(dir);
                             await fs.promises.writeFile(fileName, buffer);
 
-                            this.updateBases(artifactUri, fileUrl);
+                            this.updateBases(artifactUri, fileUrl, origin);
                             return fileUrl;
                         }
                         catch (error) {
@@ -292,7 +393,7 @@ export class UriRebaser {
                 });
                 if (!files?.length) return undefined; // User cancelled.
 
-                this.updateBases(artifactUri, files[0]);
+                this.updateBases(artifactUri, files[0], origin);
 
                 const artifactFile = artifactUri.file;
                 const localFile = files[0].toString().file;
@@ -306,5 +407,37 @@ export class UriRebaser {
         return validatedUri;
     }
 
+    /**
+     * Translates an artifact that need not exist locally, such as a file to be created by a fix.
+     * Without user interaction. The file is placed within its parent folder, which is translated as an existing
+     * artifact would be (thus via the configured, learned or mapped bases). Failing that, relative uris are placed
+     * within the first of the configured bases, `uriBase` and the workspace folders that exists.
+     */
+    public async translateNewArtifactToLocal(artifactUri: string, uriBase: string | undefined, origin?: Pick<Result, '_log' | '_run'>): Promise<Uri | undefined> {
+        const existing = await this.tryTranslateArtifactToLocal(artifactUri, uriBase, origin);
+        if (existing) return existing;
+
+        const separator = artifactUri.lastIndexOf('/');
+        const parentUri = artifactUri.slice(0, separator);
+        if (separator > 0 && !parentUri.endsWith('/')) { // Otherwise the root (such as of `file:///a.c`).
+            const parent = await this.tryTranslateArtifactToLocal(parentUri, uriBase, origin);
+            if (parent) return Uri.joinPath(parent, artifactUri.slice(separator + 1));
+        }
+
+        // Absolute uris (such as of the build machine) that were not translated are not assumed to be local.
+        const isRelative = !/^([^:/?#]+?):/.test(artifactUri);
+        if (!isRelative) return undefined;
+
+        const bases = [
+            ...this.uriBases.map(base => Uri.parse(base, true)),
+            ...uriBase ? [Uri.parse(uriBase, true)] : [],
+            ...(workspace.workspaceFolders ?? []).map(folder => folder.uri),
+        ];
+        for (const base of bases) {
+            if (await uriExists(base)) return Uri.joinPath(base, artifactUri);
+        }
+        return undefined;
+    }
+
     public uriBases = [] as string[]
 }
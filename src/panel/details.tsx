@@ -9,10 +9,10 @@ import * as React from 'react';
 import { Component, Fragment } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Location, Result, StackFrame, ThreadFlowLocation } from 'sarif';
-import { parseArtifactLocation, parseLocation, decodeFileUri } from '../shared';
+import { parseArtifactLocation, parseLocation, decodeFileUri, getTriage, ResultContributions, Triage, TriageState, triageStates } from '../shared';
 import './details.scss';
 import './index.scss';
-import { postRemoveResultFixed, postSelectArtifact, postSelectLog } from './indexStore';
+import { postRemoveResultFixed, postRunResultAction, postSelectArtifact, postSelectLog, postUpdateTriage } from './indexStore';
 import { List, Tab, TabPanel, renderMessageTextWithEmbeddedLinks } from './widgets';
 
 // ReactMarkdown blocks `vscode:` and `command:` URIs by default. This is a workaround.
@@ -25,7 +25,7 @@ function uriTransformer(uri: string) {
 
 type TabName = 'Info' | 'Analysis Steps';
 
-interface DetailsProps { result: Result, resultsFixed: string[], height: IObservableValue<number> }
+interface DetailsProps { result: Result, resultsFixed: string[], height: IObservableValue<number>, actions?: ResultContributions['actions'], triage?: Record<string, Triage> }
 @observer export class Details extends Component<DetailsProps> {
     private selectedTab = observable.box<TabName>('Info')
     @computed private get threadFlowLocations(): ThreadFlowLocation[] {
@@ -62,13 +62,44 @@ interface DetailsProps { result: Result, resultsFixed: string[], height: IObserv
             return `${text}: ${justification}`;
         };
 
-        const {result, resultsFixed, height} = this.props;
+        const renderTriage = (result: Result, triageAll: Record<string, Triage>) => {
+            const triage = getTriage(triageAll, result);
+            const update = (changes: Partial<Triage>) => {
+                const updated = { ...triage, ...changes };
+                if (!updated.assignee) delete updated.assignee;
+                if (!updated.note) delete updated.note;
+                if (JSON.stringify(updated) === JSON.stringify(triage)) return;
+                postUpdateTriage(result, updated);
+            };
+            // Text is sent when committed (on blur), not per keystroke. Keyed so that outside changes are shown.
+            const key = `${JSON.stringify(result._id)} ${JSON.stringify(triage)}`;
+            return <>
+                <span>Triage</span>             <select className="svDetailsTriage" value={triage.state}
+                                                    onChange={e => update({ state: e.target.value as TriageState })}>
+                                                    {triageStates.map(state => <option key={state} value={state}>{state}</option>)}
+                                                </select>
+                <span>Assignee</span>           <input key={key} className="svDetailsTriage" type="text" placeholder="—"
+                                                    defaultValue={triage.assignee ?? ''}
+                                                    onBlur={e => update({ assignee: e.target.value.trim() })}
+                                                    onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }} />
+                <span>Note</span>               <textarea key={key} className="svDetailsTriage" rows={2} placeholder="—"
+                                                    defaultValue={triage.note ?? ''}
+                                                    onBlur={e => update({ note: e.target.value.trim() })} />
+            </>;
+        };
+
+        const {result, resultsFixed, height, actions = [], triage} = this.props;
         const helpUri = result?._rule?.helpUri;
 
         return <div className="svDetailsPane" style={{ height: height.get() }}>
             {result && <TabPanel selection={this.selectedTab}>
                 <Tab name="Info">
                     <div className="svDetailsBody svDetailsInfo">
+                        {!!actions.length && <div className="svDetailsToolbar">
+                            {actions.map(action => <div key={action.id} className="svButton" onClick={() => postRunResultAction(result, action.id)}>
+                                {action.title}
+                            </div>)}
+                        </div>}
                         {resultsFixed.includes(JSON.stringify(result._id)) && <div className="svDetailsMessage">
                             This result has been marked as fixed.&nbsp;
                             <a href="#" onClick={e => {
@@ -108,6 +139,7 @@ interface DetailsProps { result: Result, resultsFixed: string[], height: IObserv
                                                                 {result._log._uri.file}{result._log._uriUpgraded && ' (upgraded)'}
                                                             </a>
                             <span>Suppression</span>        <span>{renderSuppressionInformation(result)}</span>
+                            {triage && renderTriage(result, triage)}
                             {(() => {
                                 // Rendering "tags" reserved for a future release.
                                 const { tags, ...rest } = result.properties ?? {};
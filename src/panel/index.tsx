@@ -55,6 +55,7 @@ export { DetailsLayouts } from './details.layouts';
         const allCollapsed = activeTableStore?.groupsFilteredSorted.every(group => !group.expanded) ?? false;
         const selectedRow = store.selection.get();
         const selected = selectedRow instanceof RowItem && selectedRow.item;
+        const selectedDetailed = selected && (store.resultDetails.get(JSON.stringify(selected._id)) ?? selected);
         return <FilterKeywordContext.Provider value={keywords ?? ''}>
             {bannerElement}
             <div className="svListPane">
@@ -114,7 +115,7 @@ export { DetailsLayouts } from './details.layouts';
             <div className="svResizer">
                 <ResizeHandle size={detailsPaneHeight} />
             </div>
-            <Details result={selected} resultsFixed={store.resultsFixed} height={detailsPaneHeight} />
+            <Details result={selectedDetailed} resultsFixed={store.resultsFixed} height={detailsPaneHeight} actions={store.contributions.actions} triage={store.triage} />
             <Popover show={showFilterPopup} style={{ top: 35, right: 8 + 35 + 35 + 8 }}>
                 {Object.entries(store.filtersRow).map(([name, state]) => <Fragment key={name}>
                     <div className="svPopoverTitle">{name}</div>
@@ -125,6 +126,11 @@ export { DetailsLayouts } from './details.layouts';
                     <div className="svPopoverTitle">{name}</div>
                     {Object.keys(state).map(name => <Checkrow key={name} label={name} state={state} />)}
                 </Fragment>)}
+                <div className="svPopoverDivider" />
+                {Object.entries(store.filtersDuplicates).map(([name, state]) => <Fragment key={name}>
+                    <div className="svPopoverTitle">{name}</div>
+                    {Object.keys(state).map(name => <Checkrow key={name} label={name} state={state} />)}
+                </Fragment>)}
             </Popover>
         </FilterKeywordContext.Provider>;
     }
@@ -0,0 +1,31 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import assert from 'assert';
+import { toJS } from 'mobx';
+import { filtersDuplicates, filtersRow, Visibility } from '../shared';
+import '../test/mockVscode'; // For `global.vscode`.
+import { IndexStore } from './indexStore';
+
+describe('IndexStore', () => {
+    it('defaults the filters added since the state was saved', () => {
+        // As saved by versions before the Triage filter and Merge Duplicates.
+        const state = {
+            filtersRow: {
+                Level: { 'Error': 'visible', 'Warning': false, 'Note': 'visible', 'None': 'visible' },
+                Baseline: { 'New': 'visible', 'Unchanged': 'visible', 'Updated': 'visible', 'Absent': false },
+                Suppression: { 'Not Suppressed': 'visible', 'Suppressed': false },
+            },
+            filtersColumn: {
+                Columns: { 'Baseline': 'visible', 'Suppression': false, 'Rule': false },
+            },
+        } as Record<string, Record<string, Record<string, Visibility>>>;
+        const store = new IndexStore(state);
+
+        assert.strictEqual(store.filtersRow.Level['Warning'], false); // Kept.
+        assert.deepStrictEqual(toJS(store.filtersRow.Triage), filtersRow.Triage);
+        assert.strictEqual(store.filtersColumn.Columns['Baseline'], 'visible');
+        assert.deepStrictEqual(toJS(store.filtersDuplicates), filtersDuplicates);
+        assert.doesNotThrow(() => store.resultTableStoreByLocation.rows);
+    });
+});
@@ -1,9 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
-import { action, autorun, computed, intercept, observable, observe, toJS, when } from 'mobx';
+import { action, autorun, computed, intercept, observable, observe, remove, set, toJS, when } from 'mobx';
 import { Log, PhysicalLocation, ReportingDescriptor, Result } from 'sarif';
-import { augmentLog, CommandExtensionToPanel, filtersColumn, filtersRow, findResult, parseArtifactLocation, Visibility } from '../shared';
+import { augmentLog, augmentSuppression, CommandExtensionToPanel, filtersColumn, filtersDuplicates, filtersRow, findResult, parseArtifactLocation, ResultContributions, ResultId, Triage, Visibility, WorkspaceFolderInfo } from '../shared';
 import '../shared/extension';
 import { isActive } from './isActive';
 import { ResultTableStore } from './resultTableStore';
@@ -13,13 +13,15 @@ export class IndexStore {
     @observable banner = '';
 
     private driverlessRules = new Map<string, ReportingDescriptor>();
+    private pendingSelection: ResultId | undefined; // A result of a log that is still being added.
 
-    constructor(state: Record<string, Record<string, Record<string, Visibility>>>, workspaceUri?: string, defaultSelection?: boolean) {
-        this.filtersRow = state.filtersRow;
-        this.filtersColumn = state.filtersColumn;
+    constructor(state: Record<string, Record<string, Record<string, Visibility>>>, workspaceFolders?: WorkspaceFolderInfo[], defaultSelection?: boolean) {
+        this.filtersRow = withDefaults(filtersRow, state.filtersRow);
+        this.filtersColumn = withDefaults(filtersColumn, state.filtersColumn);
+        this.filtersDuplicates = withDefaults(filtersDuplicates, state.filtersDuplicates);
         const setState = async () => {
-            const {filtersRow, filtersColumn} = this;
-            const state = { filtersRow: toJS(filtersRow), filtersColumn: toJS(filtersColumn) };
+            const {filtersRow, filtersColumn, filtersDuplicates} = this;
+            const state = { filtersRow: toJS(filtersRow), filtersColumn: toJS(filtersColumn), filtersDuplicates: toJS(filtersDuplicates) };
             await vscode.postMessage({ command: 'setState', state: JSON.stringify(state, null, '    ') });
             // PostMessage object key order unstable. Stringify is stable.
         };
@@ -27,14 +29,16 @@ export class IndexStore {
         observe(this.filtersRow.Level, setState);
         observe(this.filtersRow.Baseline, setState);
         observe(this.filtersRow.Suppression, setState);
+        observe(this.filtersRow.Triage, setState);
         observe(this.filtersColumn.Columns, setState);
+        observe(this.filtersDuplicates['Merge Duplicates'], setState);
 
         // `change` should be `IArrayWillSplice<Log>` but `intercept()` is not being inferred properly.
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         intercept(this.logs, (change: any) => {
             if (change.type !== 'splice') throw new Error(`Unexpected change type. ${change.type}`);
             change.added.forEach((log: Log) => {
-                augmentLog(log, this.driverlessRules, workspaceUri);
+                augmentLog(log, this.driverlessRules, workspaceFolders);
             });
             return change;
         });
@@ -58,6 +62,14 @@ export class IndexStore {
             if (!result?._uri) return; // Bail on no result or location-less result.
             postSelectArtifact(result, result.locations?.[0]?.physicalLocation);
         });
+
+        autorun(() => {
+            const selectedRow = this.selection.get();
+            const result = selectedRow instanceof RowItem && selectedRow.item as Result;
+            if (!result || !result._log._summarized) return;
+            if (this.resultDetails.has(JSON.stringify(result._id))) return;
+            postLoadResultDetails(result);
+        });
     }
 
     // Results
@@ -70,13 +82,17 @@ export class IndexStore {
         return this.runs.map(run => run.results ?? []).flat();
     }
     selection = observable.box<Row | undefined>(undefined)
-    resultTableStoreByLocation = new ResultTableStore('File', result => result._relativeUri, this, this, this.selection)
+    @observable.ref triage = {} as Record<string, Triage> // Keyed by fingerprint.
+    @observable.ref contributions: ResultContributions = { columns: [], values: {}, actions: [] }
+    resultDetails = observable.map<string, Result>(undefined, { deep: false }) // Keyed by JSON string of ResultId. Only for summarized logs.
+    resultTableStoreByLocation = new ResultTableStore('File', result => result._relativeUri, this, this, this.selection, result => result._workspaceFolder)
     resultTableStoreByRule     = new ResultTableStore('Rule', result => result._rule,        this, this, this.selection)
 
     // Filters
     @observable keywords = ''
     @observable filtersRow = filtersRow
     @observable filtersColumn = filtersColumn
+    @observable filtersDuplicates = filtersDuplicates
     @action public clearFilters() {
         this.keywords = '';
         for (const column in this.filtersRow) {
@@ -110,8 +126,13 @@ export class IndexStore {
                 this.selection.set(undefined);
             } else {
                 const result = findResult(this.logs, id);
-                if (!result) throw new Error('Unexpected: result undefined');
-                this.selectedTab.get().store?.select(result);
+                if (result) {
+                    this.pendingSelection = undefined;
+                    this.selectedTab.get().store?.select(result);
+                } else {
+                    // Such as a reloaded log, which may still be fetching (see `spliceLogs`).
+                    this.pendingSelection = id;
+                }
             }
         }
 
@@ -119,15 +140,33 @@ export class IndexStore {
             for (const uri of event.data.removed) {
                 const i = this.logs.findIndex(log => log._uri === uri);
                 if (i >= 0) this.logs.splice(i, 1);
+                for (const key of [...this.resultDetails.keys()]) {
+                    if ((JSON.parse(key) as ResultId)[0] === uri) this.resultDetails.delete(key);
+                }
             }
-            for (const {text, uri, uriUpgraded, webviewUri} of event.data.added) {
+            for (const {text, uri, uriUpgraded, fileAsLoaded, summarized, webviewUri} of event.data.added) {
                 const log: Log = text
                     ? JSON.parse(text)
                     : await (await fetch(webviewUri)).json();
                 log._uri = uri;
                 log._uriUpgraded = uriUpgraded;
+                log._fileAsLoaded = fileAsLoaded;
+                log._summarized = summarized;
                 this.logs.push(log);
             }
+            const result = this.pendingSelection && findResult(this.logs, this.pendingSelection);
+            if (result) {
+                this.pendingSelection = undefined;
+                this.selectedTab.get().store?.select(result);
+            }
+        }
+
+        if (command === 'resultDetails') {
+            const {id, text} = event.data;
+            const result = findResult(this.logs, id);
+            if (!result) return; // The log may have been closed in the meantime.
+            // Keep the augmented members of the summary, and fill in the rest.
+            this.resultDetails.set(JSON.stringify(id), { ...result, ...JSON.parse(text) });
         }
 
         if (command === 'spliceResultsFixed') {
@@ -139,6 +178,59 @@ export class IndexStore {
             }
         }
 
+        if (command === 'setContributions') {
+            const {columns, values, actions} = event.data as ResultContributions;
+            this.contributions = { columns, values, actions };
+
+            // Contributed columns are shown by default, and can be hidden like the optional columns.
+            // Columns no longer contributed (such as from a previous session) are dropped.
+            const {Columns} = this.filtersColumn;
+            const names = columns.map(column => column.name);
+            for (const name of Object.keys(Columns)) {
+                if (!(name in filtersColumn.Columns) && !names.includes(name)) remove(Columns, name);
+            }
+            for (const name of names) {
+                if (!(name in Columns)) set(Columns, name, 'visible');
+            }
+        }
+
+        // The column values of added logs, and those of removed logs dropped. The columns themselves are unchanged.
+        if (command === 'spliceContributionValues') {
+            const {removed, values} = event.data as { removed: string[], values: ResultContributions['values'] };
+            const isKept = ([id]: [string, string]) => !removed.includes((JSON.parse(id) as ResultId)[0]);
+            const {columns, actions} = this.contributions;
+            this.contributions = {
+                columns,
+                values: Object.fromEntries(columns.map(({ name }) => {
+                    const entries = Object.entries(this.contributions.values[name] ?? {});
+                    return [name, { ...Object.fromEntries(removed.length ? entries.filter(isKept) : entries), ...values[name] }];
+                })),
+                actions,
+            };
+        }
+
+        if (command === 'setSuppressions') {
+            const {id, suppressions} = event.data;
+            const result = findResult(this.logs, id);
+            if (!result) return;
+            result.suppressions = suppressions;
+            augmentSuppression(result);
+            this.resultDetails.delete(JSON.stringify(id)); // Stale.
+            // Results are not (deeply) observable, thus re-splice the log to refresh.
+            const index = this.logs.indexOf(result._log);
+            this.logs.splice(index, 1, result._log);
+        }
+
+        if (command === 'getVisibleResults') {
+            const store = this.selectedTab.get().store ?? this.resultTableStoreByLocation; // The Logs tab has no results.
+            const ids = store.groupsFilteredSorted.map(group => group.itemsFiltered.map(row => row.item._id)).flat();
+            await vscode.postMessage({ command: 'visibleResults', requestId: event.data.requestId, ids });
+        }
+
+        if (command === 'setTriage') {
+            this.triage = event.data.triage;
+        }
+
         if (command === 'setBanner') {
             this.banner = event.data?.text ?? '';
         }
@@ -176,3 +268,22 @@ export async function postRefresh() {
 export async function postRemoveResultFixed(result: Result) {
     await vscode.postMessage({ command: 'removeResultFixed', id: result._id });
 }
+
+export async function postRunResultAction(result: Result, actionId: string) {
+    await vscode.postMessage({ command: 'runResultAction', id: result._id, actionId });
+}
+
+export async function postUpdateTriage(result: Result, triage: Triage) {
+    await vscode.postMessage({ command: 'updateTriage', id: result._id, triage });
+}
+
+export async function postLoadResultDetails(result: Result) {
+    await vscode.postMessage({ command: 'loadResultDetails', id: result._id });
+}
+
+// Sections and values added since the state was saved (by an earlier version) are defaulted.
+function withDefaults(defaults: Record<string, Record<string, Visibility>>, state: Record<string, Record<string, Visibility>> = {}) {
+    const merged = { ...defaults, ...state };
+    for (const name in defaults) merged[name] = { ...defaults[name], ...state[name] };
+    return merged;
+}
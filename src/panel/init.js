@@ -15,7 +15,7 @@ vscode = acquireVsCodeApi();
 
     const store = new Store(
         JSON.parse(getMetaContent('storeState')),
-        getMetaContent('storeWorkspaceUri') || undefined,
+        JSON.parse(getMetaContent('storeWorkspaceFolders')),
     )
     store.banner = getMetaContent('storeBanner')
     ReactDOM.render(
@@ -5,7 +5,7 @@ import { observer } from 'mobx-react';
 import * as React from 'react';
 import { PureComponent, ReactNode } from 'react';
 import { Result } from 'sarif';
-import { renderMessageTextWithEmbeddedLinks } from './widgets';
+import { Badge, renderMessageTextWithEmbeddedLinks } from './widgets';
 import { ResultTableStore } from './resultTableStore';
 import { Table } from './table';
 import { Column } from './tableStore';
@@ -28,7 +28,13 @@ interface ResultTableProps<G> {
         const customRenderers = {
             'File':     result => <span title={result._uri}>{result._uri?.file ?? '—'}</span>,
             'Line':     result => <span>{result._region?.startLine ?? '—'}</span>,
-            'Message':  result => <span>{renderMessageTextWithEmbeddedLinks(result._message, result, vscode.postMessage)}</span>,
+            'Message':  result => {
+                const sourceCount = this.props.store.sourceCount(result);
+                return <>
+                    <span>{renderMessageTextWithEmbeddedLinks(result._message, result, vscode.postMessage)}</span>
+                    {sourceCount > 1 && <span title={`Reported by ${sourceCount} runs`}><Badge text={sourceCount} /></span>}
+                </>;
+            },
             'Rule':     result => <>
                 <span>{result._rule?.name ?? '—'}</span>
                 <span className="svSecondary">{result.ruleId}</span>
@@ -38,7 +44,9 @@ interface ResultTableProps<G> {
             const capitalize = (str: string) => `${str[0].toUpperCase()}${str.slice(1)}`;
             return <span>{capitalize(column.toString(result))}</span>;
         };
-        const renderer = customRenderers[column.name] ?? defaultRenderer;
+        const contributedRenderer = (result: Result) => <span>{column.toString(result) || '—'}</span>; // Shown as provided.
+        const renderer = customRenderers[column.name]
+            ?? (this.props.store.columnsContributed.includes(column) ? contributedRenderer : defaultRenderer);
         return renderer(result);
     }
 
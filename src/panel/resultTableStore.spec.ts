@@ -3,22 +3,25 @@
 
 import { Row, RowGroup, RowItem } from './tableStore';
 import { observable } from 'mobx';
-import { filtersRow, filtersColumn } from '../shared';
+import { augmentLog, filtersRow, filtersColumn, filtersDuplicates, getResultFingerprint, Triage, Visibility } from '../shared';
 import { ResultTableStore } from './resultTableStore';
 import { log } from '../test/mockResultTableStore';
 import assert from 'assert';
-import { Result } from 'sarif';
+import { Log, Result } from 'sarif';
 
 describe('ResultTableStore', () => {
     const resultsSource = {
         results: log.runs![0].results!,
-        resultsFixed: []
+        resultsFixed: [],
+        contributions: { columns: [], values: {}, actions: [] },
+        triage: {},
     };
     const selection = observable.box<Row | undefined>(undefined);
     const filtersSource = {
         keywords: '',
         filtersRow: filtersRow,
-        filtersColumn: filtersColumn
+        filtersColumn: filtersColumn,
+        filtersDuplicates: filtersDuplicates,
     };
 
     it('creates different visible columns based on Group Name provided', () => {
@@ -48,4 +51,78 @@ describe('ResultTableStore', () => {
         const nonFile1GroupRowItems = resultTableStore.rowItems.slice(1, resultTableStore.rowItems.length);
         assert.deepStrictEqual(nonFile1GroupRowItems.map((rowItem) => (rowItem.group as RowGroup<string,string>).title), ['non file_1', 'non file_1', 'non file_1', 'non file_1', 'non file_1']);
     });
+
+    it('adds contributed columns and actions', () => {
+        const [result] = resultsSource.results;
+        const id = JSON.stringify(result._id);
+        const contributions = {
+            columns: [{ name: 'Owner', width: 100 }],
+            values: { 'Owner': { [id]: 'alice' } },
+            actions: [{ id: 'openBug', title: 'Open in bug tracker' }],
+        };
+        const resultTableStore = new ResultTableStore('File', result => result._relativeUri, { ...resultsSource, contributions }, {
+            ...filtersSource,
+            filtersColumn: { Columns: { ...filtersColumn.Columns, 'Owner': 'visible' } },
+        }, selection);
+        assert.deepStrictEqual(resultTableStore.visibleColumns.map(col => col.name), ['Line', 'Message', 'Owner']);
+        assert.strictEqual(resultTableStore.columnsContributed[0].toString(result), 'alice');
+        assert.deepStrictEqual(resultTableStore.menuContext(result), { hasResultActions: 'true', resultId: id });
+    });
+
+    it('offers suppression only for log files as loaded', () => {
+        const resultTableStore = new ResultTableStore('File', result => result._relativeUri, resultsSource, filtersSource, selection);
+        const [result] = resultsSource.results;
+        const menuContext = (log: Partial<Log>) => resultTableStore.menuContext({ ...result, _log: { ...result._log, ...log } });
+        assert.strictEqual(menuContext({ _fileAsLoaded: true })?.isSuppressible, 'true');
+        assert.strictEqual(menuContext({ _fileAsLoaded: false }), undefined); // Such as upgraded, archived or in-memory logs.
+    });
+
+    it('filters by triage state', () => {
+        const triage = {} as Record<string, Triage>;
+        const filtersRowAll = Object.fromEntries(Object.entries(filtersRow)
+            .map(([name, state]) => [name, Object.fromEntries(Object.keys(state).map(key => [key, 'visible' as Visibility]))]));
+        const itemsFiltered = (filtersRow: Record<string, Record<string, Visibility>>) => new ResultTableStore('File', result => result._relativeUri, { ...resultsSource, triage }, { ...filtersSource, filtersRow }, selection)
+            .groupsFilteredSorted.map(group => group.itemsFiltered.map(row => row.item)).flat();
+
+        const [result] = itemsFiltered(filtersRowAll);
+        triage[getResultFingerprint(result)] = { state: 'false positive' };
+        assert.ok(itemsFiltered(filtersRowAll).includes(result));
+        const itemsWithoutFalsePositives = itemsFiltered({ ...filtersRowAll, Triage: { ...filtersRowAll.Triage, 'False Positive': false } });
+        assert.ok(!itemsWithoutFalsePositives.includes(result));
+        assert.strictEqual(itemsWithoutFalsePositives.length, itemsFiltered(filtersRowAll).length - 1);
+    });
+
+    it('merges duplicate results if enabled for the grouping', () => {
+        const createLog = (uri: string) => {
+            const log = {
+                version: '2.1.0',
+                runs: [{
+                    tool: { driver: { name: 'Tool' } },
+                    results: [
+                        { ruleId: 'R1', message: { text: 'Duplicate' }, partialFingerprints: { hash: '1' } },
+                        { ruleId: 'R2', message: { text: 'Unique' }, partialFingerprints: { hash: uri } },
+                    ],
+                }],
+            } as unknown as Log;
+            log._uri = uri;
+            augmentLog(log);
+            return log;
+        };
+        const results = [createLog('file:///a.sarif'), createLog('file:///b.sarif')].map(log => log.runs[0].results!).flat();
+        const filtersDuplicates = observable({ 'Merge Duplicates': { 'File': false, 'Rule': false } } as Record<string, Record<string, Visibility>>);
+        const resultTableStore = new ResultTableStore('File', result => result._relativeUri, { ...resultsSource, results }, {
+            ...filtersSource,
+            filtersDuplicates,
+        }, selection);
+        assert.strictEqual(resultTableStore.rowItems.length, 4);
+        assert.strictEqual(resultTableStore.sourceCount(results[0]), 1);
+
+        filtersDuplicates['Merge Duplicates']['File'] = 'visible';
+        assert.deepStrictEqual(resultTableStore.rowItems.map((row: RowItem<Result>) => row.item), [results[0], results[1], results[3]]);
+        assert.strictEqual(resultTableStore.sourceCount(results[0]), 2);
+        assert.strictEqual(resultTableStore.sourceCount(results[1]), 1);
+
+        resultTableStore.select(results[2]); // The duplicate from the second log.
+        assert.strictEqual((selection.get() as RowItem<Result>).item, results[0]);
+    });
 });
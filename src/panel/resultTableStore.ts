@@ -3,29 +3,74 @@
 
 import { computed, IObservableValue } from 'mobx';
 import { Result } from 'sarif';
-import { Visibility } from '../shared';
+import { getTriage, groupDuplicateResults, Visibility } from '../shared';
 import { IndexStore } from './indexStore';
 import { Column, Row, TableStore } from './tableStore';
 
+// The results of a grouping. If enabled for the grouping, duplicates (see `getResultFingerprint`) are merged into the first.
+class MergedResults {
+    constructor(
+        readonly groupName: string,
+        readonly resultsSource: Pick<IndexStore, 'results'>,
+        readonly filtersSource: { filtersDuplicates: Record<string, Record<string, Visibility>> }) {
+    }
+
+    @computed get duplicates() {
+        return groupDuplicateResults(this.resultsSource.results);
+    }
+
+    get isMerged() {
+        return !!this.filtersSource.filtersDuplicates['Merge Duplicates'][this.groupName];
+    }
+
+    @computed get results() {
+        return this.isMerged ? [...this.duplicates.keys()] : this.resultsSource.results;
+    }
+}
+
 export class ResultTableStore<G> extends TableStore<Result, G> {
     constructor(
         readonly groupName: string,
         readonly groupBy: (item: Result) => G | undefined,
-        private readonly resultsSource: Pick<IndexStore, 'results' | 'resultsFixed'>,
+        private readonly resultsSource: Pick<IndexStore, 'results' | 'resultsFixed' | 'contributions' | 'triage'>,
         readonly filtersSource: {
             keywords: string;
             filtersRow: Record<string, Record<string, Visibility>>;
             filtersColumn: Record<string, Record<string, Visibility>>;
+            filtersDuplicates: Record<string, Record<string, Visibility>>;
         },
-        readonly selection: IObservableValue<Row | undefined>) {
+        readonly selection: IObservableValue<Row | undefined>,
+        readonly groupFirstBy?: (item: Result) => string | undefined) {
         super(
             groupBy,
-            resultsSource,
+            new MergedResults(groupName, resultsSource, filtersSource),
             selection,
+            groupFirstBy,
         );
         this.sortColumn = this.columnsPermanent[0].name;
     }
 
+    // Duplicates
+    private get mergedResults() {
+        return this.itemsSource as MergedResults;
+    }
+
+    // The number of runs (across logs) that reported the result. Only more than 1 if duplicates are merged.
+    public sourceCount(result: Result): number {
+        const {isMerged, duplicates} = this.mergedResults;
+        if (!isMerged) return 1;
+        return new Set(duplicates.get(result)?.map(result => result._run) ?? []).size;
+    }
+
+    select(result: Result) {
+        // If merged, the result may be represented by another (the first) of its duplicates.
+        const {isMerged, duplicates} = this.mergedResults;
+        const representative = isMerged
+            ? [...duplicates].find(([, results]) => results.includes(result))?.[0]
+            : undefined;
+        super.select(representative ?? result);
+    }
+
     // Columns
     private columnsPermanent = [
         new Column<Result>('Line', 50, result => result._region?.startLine?.toString() ?? '—', result => result._region?.startLine ?? 0),
@@ -37,8 +82,12 @@ export class ResultTableStore<G> extends TableStore<Result, G> {
         new Column<Result>('Suppression', 100, result => result._suppression ?? ''),
         new Column<Result>('Rule', 220, result => `${result._rule?.name ?? '—'} ${result.ruleId ?? '—'}`),
     ]
+    @computed get columnsContributed() {
+        const {columns, values} = this.resultsSource.contributions;
+        return columns.map(({ name, width }) => new Column<Result>(name, width, result => values[name]?.[JSON.stringify(result._id)] ?? ''));
+    }
     get columns() {
-        return [...this.columnsPermanent, ...this.columnsOptional];
+        return [...this.columnsPermanent, ...this.columnsOptional, ...this.columnsContributed];
     }
     @computed get visibleColumns() {
         const {filtersColumn} = this.filtersSource;
@@ -47,7 +96,8 @@ export class ResultTableStore<G> extends TableStore<Result, G> {
             .map(([name, ]) => name);
         return [
             ...this.columnsPermanent.filter(col => col.name !== this.groupName),
-            ...this.columnsOptional.filter(col => optionalColumnNames.includes(col.name))
+            ...this.columnsOptional.filter(col => optionalColumnNames.includes(col.name)),
+            ...this.columnsContributed.filter(col => optionalColumnNames.includes(col.name)),
         ];
     }
 
@@ -61,12 +111,15 @@ export class ResultTableStore<G> extends TableStore<Result, G> {
         const levels = mapToList(filtersRow.Level);
         const baselines = mapToList(filtersRow.Baseline);
         const suppressions = mapToList(filtersRow.Suppression);
+        const triageStates = mapToList(filtersRow.Triage);
+        const {triage} = this.resultsSource;
         const filterKeywords = keywords.toLowerCase().split(/\s+/).filter(part => part);
 
         return (result: Result) => {
             if (!levels.includes(result.level ?? '')) return false;
             if (!baselines.includes(result.baselineState ?? '')) return false;
             if (!suppressions.includes(result._suppression ?? '')) return false;
+            if (!triageStates.includes(getTriage(triage, result).state)) return false;
             return columns.some(col => {
                 const isMatch = (field: string, keywords: string[]) => !keywords.length || keywords.some(keyword => field.includes(keyword));
                 const {toString} = col;
@@ -81,9 +134,22 @@ export class ResultTableStore<G> extends TableStore<Result, G> {
     }
 
     public menuContext(result: Result): Record<string, string> | undefined {
-        // If no alertNumber, then don't show the context menu (which contains the Dismiss Alert commands).
-        if (!result.properties?.['github/alertNumber']) return undefined;
+        // The Dismiss Alert commands require an alertNumber. The "Result Actions..." command requires contributed actions.
+        // The "Suppress Result..." command requires a log file (as loaded, thus not upgraded, archived nor in memory).
+        // The "Apply All Fixes..." commands require a fix.
+        // If none, then don't show the context menu.
+        const isGithubAlert = !!result.properties?.['github/alertNumber'];
+        const hasResultActions = !!this.resultsSource.contributions.actions.length;
+        const isSuppressible = !!result._log?._fileAsLoaded; // As per `isLogFileAsLoaded`.
+        const hasFixes = !!result.fixes?.length;
+        if (!isGithubAlert && !hasResultActions && !isSuppressible && !hasFixes) return undefined;
 
-        return { webviewSection: 'isGithubAlert', resultId: JSON.stringify(result._id) };
+        return {
+            ...isGithubAlert && { webviewSection: 'isGithubAlert' },
+            ...hasResultActions && { hasResultActions: 'true' },
+            ...isSuppressible && { isSuppressible: 'true' },
+            ...hasFixes && { hasFixes: 'true' },
+            resultId: JSON.stringify(result._id),
+        };
     }
 }
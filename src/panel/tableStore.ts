@@ -56,7 +56,8 @@ export class TableStore<T, G> {
     constructor(
         readonly groupBy: (item: T) => G | undefined,
         readonly itemsSource: { results: ReadonlyArray<T> }, // Abstraction break.
-        readonly selection: IObservableValue<Row | undefined>) {
+        readonly selection: IObservableValue<Row | undefined>,
+        readonly groupFirstBy?: (item: T) => string | undefined) { // Orders groups (such as by workspace folder) ahead of size.
     }
 
     @computed({ keepAlive: true }) public get rowItems() {
@@ -71,7 +72,10 @@ export class TableStore<T, G> {
             group.items.push(item);
             item.group = group;
         });
-        return [...map.values()].sortBy(g => g.items.length, true); // High to low.
+        const groups = [...map.values()].sortBy(g => g.items.length, true); // High to low.
+        const {groupFirstBy} = this;
+        if (!groupFirstBy) return groups;
+        return groups.sortBy(g => groupFirstBy(g.items[0].item) ?? ''); // Stable, thus high to low within.
     }
 
     // Unable to express "columns of any varying types" otherwise.
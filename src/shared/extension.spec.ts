@@ -40,6 +40,14 @@ describe('Extension', () => {
             assert.strictEqual([].removeFirst(log => log === 'uri5'), false);
         });
     });
+    describe('Array.prototype.removeAll', () => {
+        it('removes all occurrences of matching', () => {
+            const logs = [{ '_uri': 'uri1' }, { '_uri': 'uri2' }, { '_uri': 'uri2' }];
+            assert.deepStrictEqual(logs.removeAll(log => log._uri === 'uri2'), [{ '_uri': 'uri2' }, { '_uri': 'uri2' }]);
+            assert.deepStrictEqual(logs, [{ '_uri': 'uri1' }]);
+            assert.deepStrictEqual(logs.removeAll(log => log._uri === 'uri5'), []);
+        });
+    });
     describe('String.prototype.sortBy', () => {
         it('sorts strings', () => {
             const sortedArrayAsc = ['c','b', 'a', 'd'].sortBy(item => String(item));
@@ -16,6 +16,7 @@ declare global {
         replace(items: T[]): void; // From Mobx, but not showing up.
         remove(item: T): boolean; // From Mobx, but not showing up.
         removeFirst(predicate: (item: T) => boolean): T | false;
+        removeAll(predicate: (item: T) => boolean): T[];
         sortBy<T>(this: T[], selector: Selector<T>, descending?: boolean): Array<T>; // Not a copy
     }
     interface String {
@@ -39,6 +40,17 @@ Object.defineProperty(Array.prototype, 'removeFirst', {
     }
 });
 
+!Array.prototype.hasOwnProperty('removeAll') &&
+Object.defineProperty(Array.prototype, 'removeAll', {
+    value: function(predicate: (item: any) => boolean) {
+        const removed = [] as any[];
+        for (let i = this.length - 1; i >= 0; i--) {
+            if (predicate(this[i])) removed.unshift(...this.splice(i, 1));
+        }
+        return removed;
+    }
+});
+
 Array.prototype.sortBy = function<T>(selector: Selector<T>, descending = false) {
     this.sort((a, b) => {
         const aa = selector(a);
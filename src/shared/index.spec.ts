@@ -3,7 +3,7 @@
 
 import assert from 'assert';
 import { Log, ReportingDescriptor, Result, Run } from 'sarif';
-import { augmentLog, decodeFileUri, effectiveLevel } from '.';
+import { augmentLog, decodeFileUri, effectiveLevel, resolveUriBaseId } from '.';
 import './extension';
 
 describe('augmentLog', () => {
@@ -52,6 +52,34 @@ describe('augmentLog', () => {
         assert.strictEqual(result._uriContents, 'sarif:undefined/0/0/file.txt');
     });
 
+    it('relativizes uris against workspace folders', () => {
+        const workspaceFolders = [
+            { name: 'a', uri: 'file:///a' },
+            { name: 'b', uri: 'file:///b' },
+            { name: 'b-nested', uri: 'file:///b/nested' },
+        ];
+        const uris = ['file:///a/file.txt', 'file:///b/nested/file.txt', 'file:///c/file.txt'];
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                tool: { driver: { name: 'Driver' } },
+                results: uris.map(uri => ({
+                    message: { text: 'Message' },
+                    locations: [{ physicalLocation: { artifactLocation: { uri } } }],
+                })),
+            }],
+        } as Log;
+
+        augmentLog(log, undefined, workspaceFolders);
+        const results = log.runs[0].results!;
+        assert.deepStrictEqual(results.map(result => result._workspaceFolder), ['a', 'b-nested', undefined]);
+        assert.deepStrictEqual(results.map(result => result._relativeUri), ['/a/file.txt', '/b-nested/file.txt', 'file:///c/file.txt']);
+
+        log._augmented = false;
+        augmentLog(log, undefined, workspaceFolders.slice(0, 1));
+        assert.strictEqual(results[0]._relativeUri, '/file.txt');
+    });
+
     it('is able to reuse driverless rule instances across runs', () => {
         const placeholderTool = {
             driver: { name: 'Driver' }
@@ -176,6 +204,34 @@ describe('decodeFileUri', () => {
     });
 });
 
+describe('resolveUriBaseId', () => {
+    const run: Pick<Run, 'originalUriBaseIds'> = {
+        originalUriBaseIds: {
+            REPOROOT: { uri: 'file:///build/' },
+            SRCROOT: { uri: 'src', uriBaseId: 'REPOROOT' },
+            TESTROOT: { uri: 'test/', uriBaseId: 'SRCROOT' },
+            PARTIAL: { uri: 'lib/', uriBaseId: 'UNKNOWN' },
+            CYCLE1: { uri: 'a/', uriBaseId: 'CYCLE2' },
+            CYCLE2: { uri: 'b/', uriBaseId: 'CYCLE1' },
+        },
+    };
+
+    it('resolves chains', () => {
+        assert.strictEqual(resolveUriBaseId(run, 'REPOROOT'), 'file:///build/');
+        assert.strictEqual(resolveUriBaseId(run, 'SRCROOT'), 'file:///build/src');
+        assert.strictEqual(resolveUriBaseId(run, 'TESTROOT'), 'file:///build/src/test/');
+    });
+
+    it('resolves partially if the chain is incomplete', () => {
+        assert.strictEqual(resolveUriBaseId(run, 'PARTIAL'), 'lib/');
+        assert.strictEqual(resolveUriBaseId(run, 'UNKNOWN'), undefined);
+    });
+
+    it('detects cycles', () => {
+        assert.strictEqual(resolveUriBaseId(run, 'CYCLE1'), undefined);
+    });
+});
+
 /*
 Global State Test Notes
 - Basic
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
-import { ArtifactLocation, Location, Log, ReportingDescriptor, Result } from 'sarif';
+import { ArtifactLocation, Location, Log, ReportingDescriptor, Result, Run } from 'sarif';
 import { URI } from 'vscode-uri';
 
 type JsonLocation = { line: number, column: number } // Unused: pos
@@ -10,6 +10,12 @@ export type JsonMap = Record<string, JsonRange>
 
 export type ResultId = [string, number, number]
 
+// Whether the file of the log is the log as loaded, thus can be written to (such as to add suppressions).
+// Not so for upgraded logs, logs within archives, or logs held in memory.
+export function isLogFileAsLoaded(log: Log) {
+    return log._uri.startsWith('file:') && !log._uriUpgraded && log._text === undefined;
+}
+
 export function findResult(logs: Log[], id: ResultId): Result | undefined {
     const [logUri, runIndex, resultIndex] = id;
     return logs.find(log => log._uri === logUri)?.runs[runIndex]?.results?.[resultIndex];
@@ -26,7 +32,9 @@ declare module 'sarif' {
         _uriUpgraded?: string; // Only present if upgraded.
         _jsonMap?: JsonMap; // Only used by the "extension" side for navigating original SARIF sources. The "panel" side does not need this feature and thus does not use this field.
         _augmented: boolean;
+        _summarized?: boolean; // If true, the Panel only receives result summaries. Full results are requested upon selection.
         _distinct: Map<string, string>; // Technically per Run, practically doesn't matter right now.
+        _fileAsLoaded?: boolean; // Only used by the "panel" side, which does not receive `_text`. See `isLogFileAsLoaded`.
     }
 
     interface Run {
@@ -40,6 +48,7 @@ declare module 'sarif' {
         _uri?: string;
         _uriContents?: string; // ArtifactContent. Do not use this uri for display.
         _relativeUri?: string;
+        _workspaceFolder?: string; // Name of the workspace folder containing `_uri`, if any.
         _region?: Region;
         _rule?: ReportingDescriptor;
         _message: string; // '—' if empty.
@@ -56,6 +65,32 @@ function format(template: string | undefined, args?: string[]) {
     return template.replace(/{(\d+)}/g, (_, group) => args[group]);
 }
 
+/**
+ * Identifies a result across loads of a log (and across logs), unlike `_id` which is positional.
+ * Uses `fingerprints` (or failing that, `partialFingerprints`) if present.
+ * Otherwise falls back to the rule, location and message.
+ */
+export function getResultFingerprint(result: Result): string {
+    const fingerprints = result.fingerprints ?? result.partialFingerprints;
+    if (fingerprints && Object.keys(fingerprints).length) {
+        return JSON.stringify([result.ruleId, Object.entries(fingerprints).sortBy(([key]) => key)]);
+    }
+    return JSON.stringify([result.ruleId, result._uri, result._region?.startLine, result._region?.startColumn, result._message]);
+}
+
+// Groups results with the same fingerprint, such as from overlapping runs or from several logs.
+// Keyed by the first result of each group, in the order of `results`.
+export function groupDuplicateResults(results: ReadonlyArray<Result>): Map<Result, Result[]> {
+    const groups = new Map<string, Result[]>();
+    for (const result of results) {
+        const fingerprint = getResultFingerprint(result);
+        const group = groups.get(fingerprint);
+        if (group) group.push(result);
+        else groups.set(fingerprint, [result]);
+    }
+    return new Map([...groups.values()].map(group => [group[0], group]));
+}
+
 export function mapDistinct(pairs: [string, string][]): Map<string, string> {
     const distinct = new Map<string, string | undefined>();
     for (const [key, value] of pairs) {
@@ -72,7 +107,13 @@ export function mapDistinct(pairs: [string, string][]): Map<string, string> {
     return distinct as Map<string, string>;
 }
 
-export function augmentLog(log: Log, rules?: Map<string, ReportingDescriptor>, workspaceUri?: string) {
+// The subset of `vscode.WorkspaceFolder` needed by the Panel. `uri` has no trailing slash.
+export interface WorkspaceFolderInfo {
+    name: string;
+    uri: string;
+}
+
+export function augmentLog(log: Log, rules?: Map<string, ReportingDescriptor>, workspaceFolders: WorkspaceFolderInfo[] = []) {
     if (log._augmented) return;
     log._augmented = true;
     const fileAndUris = [] as [string, string][];
@@ -101,7 +142,18 @@ export function augmentLog(log: Log, rules?: Map<string, ReportingDescriptor>, w
             const [uri, _, uriContents] = parseArtifactLocation(result, ploc?.artifactLocation);
             result._uri = uri;
             result._uriContents = uriContents;
-            result._relativeUri = result._uri?.replace(workspaceUri ?? '' , '') ?? ''; // For grouping, Empty works more predictably than undefined
+            {
+                // Nested workspace folders are possible, thus the longest (innermost) match wins.
+                const folder = workspaceFolders
+                    .filter(folder => uri?.startsWith(`${folder.uri}/`))
+                    .sortBy(folder => folder.uri.length, true)[0];
+                result._workspaceFolder = folder?.name;
+                result._relativeUri = !folder
+                    ? uri ?? '' // For grouping, Empty works more predictably than undefined
+                    : workspaceFolders.length > 1
+                        ? `/${folder.name}${uri!.slice(folder.uri.length)}` // Disambiguate identical paths across folders.
+                        : uri!.slice(folder.uri.length);
+            }
             {
                 const parts = uri?.split('/');
                 const file = parts?.pop();
@@ -130,25 +182,30 @@ export function augmentLog(log: Log, rules?: Map<string, ReportingDescriptor>, w
 
             result.level = effectiveLevel(result);
             result.baselineState = result.baselineState ?? 'new';
-            result._suppression = !result.suppressions || result.suppressions.every(sup => sup.status === 'rejected')
-                ? 'not suppressed'
-                : 'suppressed';
-            result._justification = undefined;
-            if (result.suppressions)
-            {
-                const justifications = result.suppressions
-                    .map(sup => sup?.justification)
-                    .filter(justification => !!justification);
-                if (justifications.length > 0)
-                {
-                    result._justification = justifications[0];
-                }
-            }
+            augmentSuppression(result);
         });
     });
     log._distinct = mapDistinct(fileAndUris);
 }
 
+// Also called when suppressions are added to an already augmented result.
+export function augmentSuppression(result: Result) {
+    result._suppression = !result.suppressions || result.suppressions.every(sup => sup.status === 'rejected')
+        ? 'not suppressed'
+        : 'suppressed';
+    result._justification = undefined;
+    if (result.suppressions)
+    {
+        const justifications = result.suppressions
+            .map(sup => sup?.justification)
+            .filter(justification => !!justification);
+        if (justifications.length > 0)
+        {
+            result._justification = justifications[0];
+        }
+    }
+}
+
 export function effectiveLevel(result: Result): Result.level {
     switch (result.kind) {
         case 'informational':
@@ -188,6 +245,29 @@ export function parseLocation(result: Result, loc?: Location) {
     return { message, uri, uriContent, region };
 }
 
+// Resolves a uriBaseId through the chain of `run.originalUriBaseIds` (§3.14.14), such as `SRCROOT` → `REPOROOT` → `file:///build/`.
+// If the chain ends without an absolute URI (the consumer is expected to supply the rest), the partially resolved URI is returned.
+// Returns undefined if the uriBaseId is unknown or the chain is cyclic.
+export function resolveUriBaseId(run: Pick<Run, 'originalUriBaseIds'>, uriBaseId: string): string | undefined {
+    const uris = [] as string[]; // Outermost first.
+    const visited = new Set<string>();
+    let id: string | undefined = uriBaseId;
+    while (id) {
+        if (visited.has(id)) return undefined;
+        visited.add(id);
+
+        const base = run.originalUriBaseIds?.[id] as ArtifactLocation | undefined;
+        if (!base) break;
+        if (base.uri) uris.unshift(base.uri);
+        if (base.uri && /^[^:/?#]+:/.test(base.uri)) break; // Absolute. §3.4.4: uriBaseId SHALL NOT be present.
+        id = base.uriBaseId;
+    }
+    if (!uris.length) return undefined;
+
+    // §3.14.14: Each uri SHALL end with a slash. Tolerate those that do not.
+    return uris.reduce((parent, uri) => `${parent.replace(/\/?$/, '/')}${uri.replace(/^\//, '')}`);
+}
+
 // Improve: `result` purely used for `_run.artifacts`.
 export function parseArtifactLocation(result: Pick<Result, '_log' | '_run'>, anyArtLoc: ArtifactLocation | undefined) {
     if (!anyArtLoc) return [undefined, undefined, undefined];
@@ -196,11 +276,10 @@ export function parseArtifactLocation(result: Pick<Result, '_log' | '_run'>, any
     const runArtCon = runArt?.contents;
     const uri = anyArtLoc.uri ?? runArtLoc?.uri ?? ''; // If index (§3.4.5) is absent, uri SHALL be present.
 
-    // Currently not supported: recursive resolution of uriBaseId.
     // Note: While an uriBase often results in an absolute URI, there is no guarantee.
     // Note: While an uriBase often represents the project root, there is no guarantee.
     const uriBaseId = anyArtLoc.uriBaseId ?? runArtLoc?.uriBaseId;
-    const uriBase = uriBaseId ? result._run.originalUriBaseIds?.[uriBaseId]?.uri : undefined;
+    const uriBase = uriBaseId ? resolveUriBaseId(result._run, uriBaseId) : undefined;
 
     // A shorter more transparent URI format would be:
     // `sarif://${encodeURIComponent(result._log._uri)}/${result._run._index}/${anyArtLoc.index}/${uri?.file ?? 'Untitled'}`
@@ -242,6 +321,21 @@ export const filtersRow: Record<string, Record<string, Visibility>> = {
         'Not Suppressed': 'visible',
         'Suppressed': false,
     },
+    Triage: {
+        'Untriaged': 'visible',
+        'Confirmed': 'visible',
+        'False Positive': 'visible',
+        'Won\'t Fix': 'visible',
+        'Needs Investigation': 'visible',
+    },
+};
+
+// Per grouping (`ResultTableStore.groupName`), whether duplicate results are merged into one row.
+export const filtersDuplicates: Record<string, Record<string, Visibility>> = {
+    'Merge Duplicates': {
+        'File': false,
+        'Rule': false,
+    },
 };
 
 export const filtersColumn: Record<string, Record<string, Visibility>> = {
@@ -252,5 +346,26 @@ export const filtersColumn: Record<string, Record<string, Visibility>> = {
     },
 };
 
-export type CommandPanelToExtension = 'load' | 'open' | 'closeLog' | 'closeAllLogs' | 'select' | 'selectLog' | 'setState' | 'refresh' | 'removeResultFixed';
-export type CommandExtensionToPanel = 'select' | 'spliceLogs' | 'spliceResultsFixed' | 'setBanner';
+// Local triage of results, shared with the team via `.sarif/triage.json`. Keyed by fingerprint (see `getResultFingerprint`).
+export const triageStates = ['untriaged', 'confirmed', 'false positive', 'won\'t fix', 'needs investigation'] as const;
+export type TriageState = typeof triageStates[number];
+export interface Triage {
+    state: TriageState;
+    assignee?: string;
+    note?: string;
+}
+
+export function getTriage(triage: Record<string, Triage>, result: Result): Triage {
+    return triage[getResultFingerprint(result)] ?? { state: 'untriaged' };
+}
+
+// Columns and actions registered by other extensions (see `Api.registerResultColumn`).
+// Column values are computed by the extension, and keyed by column name then JSON string of ResultId.
+export interface ResultContributions {
+    columns: { name: string, width: number }[];
+    values: Record<string, Record<string, string>>;
+    actions: { id: string, title: string }[];
+}
+
+export type CommandPanelToExtension = 'load' | 'open' | 'closeLog' | 'closeAllLogs' | 'select' | 'selectLog' | 'setState' | 'refresh' | 'removeResultFixed' | 'loadResultDetails' | 'runResultAction' | 'updateTriage' | 'visibleResults';
+export type CommandExtensionToPanel = 'select' | 'spliceLogs' | 'spliceResultsFixed' | 'setBanner' | 'resultDetails' | 'setContributions' | 'spliceContributionValues' | 'setTriage' | 'setSuppressions' | 'getVisibleResults';
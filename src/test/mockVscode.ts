@@ -11,7 +11,7 @@
 import { DiagnosticSeverity } from 'vscode';
 import { URI as Uri } from 'vscode-uri';
 import { IndexStore } from '../panel/indexStore';
-import { filtersColumn, filtersRow } from '../shared';
+import { filtersColumn, filtersDuplicates, filtersRow } from '../shared';
 import { log } from './mockLog';
 import * as path from 'path';
 
@@ -62,13 +62,24 @@ export const mockVscode = {
         createDiagnosticCollection: () => {},
         registerCodeActionsProvider: () => {},
     },
+    EventEmitter: class {
+        private listeners = [] as Function[];
+        event = (listener: Function) => {
+            this.listeners.push(listener);
+            return { dispose: () => this.listeners = this.listeners.filter(existing => existing !== listener) };
+        };
+        fire(data: any) { this.listeners.forEach(listener => listener(data)); }
+        dispose() { this.listeners = []; }
+    },
     ProgressLocation: { Notification: 15 },
     Selection: class {
         constructor(readonly a: number, readonly b: number, readonly c: number, readonly d: number) {}
     },
     TextEditorRevealType: { InCenterIfOutsideViewport: 2 },
     ThemeColor: class {},
-    Uri,
+    Uri: Object.assign(Uri, {
+        joinPath: (uri: Uri, ...pathSegments: string[]) => uri.with({ path: path.posix.join(uri.path, ...pathSegments) }),
+    }),
     ViewColumn: { Two: 2 },
     window: {
         createTextEditorDecorationType: () => {},
@@ -76,6 +87,7 @@ export const mockVscode = {
             const defaultState = {
                 filtersRow,
                 filtersColumn,
+                filtersDuplicates,
             };
 
             // Simulate the top-level script block of the webview.
@@ -127,6 +139,13 @@ export const mockVscode = {
     },
     workspace: {
         onDidChangeConfiguration: () => {},
+        onDidChangeWorkspaceFolders: () => {},
+        createFileSystemWatcher: () => ({
+            onDidCreate: () => {},
+            onDidChange: () => {},
+            onDidDelete: () => {},
+            dispose: () => {},
+        }),
         getConfiguration: () => new Map(),
         onDidOpenTextDocument: () => {},
         onDidCloseTextDocument: () => {},